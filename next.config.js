@@ -14,6 +14,8 @@ const nextConfig = {
       {
         // Standard security headers — Next.js sets immutable cache headers
         // for /_next/static automatically, so we don't override that.
+        // Content-Security-Policy is per-request (nonce) and set in
+        // src/proxy.ts instead.
         source: '/:path*',
         headers: [
           { key: 'X-DNS-Prefetch-Control', value: 'on' },
@@ -21,23 +23,6 @@ const nextConfig = {
           { key: 'X-Content-Type-Options', value: 'nosniff' },
           { key: 'Referrer-Policy', value: 'strict-origin-when-cross-origin' },
           { key: 'Permissions-Policy', value: 'camera=(), microphone=(), geolocation=()' },
-          {
-            key: 'Content-Security-Policy',
-            value: [
-              "default-src 'self'",
-              "script-src 'self' 'unsafe-eval' 'unsafe-inline'",
-              "style-src 'self' 'unsafe-inline' https:",
-              "img-src 'self' data: https: blob:",
-              "font-src 'self' data: https:",
-              "connect-src 'self' https: wss: ws:",
-              "frame-src 'self'",
-              "object-src 'none'",
-              "base-uri 'self'",
-              "form-action 'self'",
-              "frame-ancestors 'self'",
-              "upgrade-insecure-requests",
-            ].join('; '),
-          },
         ],
       },
     ]
@@ -55,6 +40,15 @@ const nextConfig = {
     ]
   },
 
+  // Integrity hashes on every chunk <script>, for prerendered pages: they
+  // can't carry a CSP nonce, so the hash is what ties their scripts to this
+  // build (see src/lib/csp/policy.ts).
+  experimental: {
+    sri: {
+      algorithm: 'sha256',
+    },
+  },
+
   images: {
     formats: ['image/avif', 'image/webp'],
   },
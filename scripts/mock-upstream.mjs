@@ -0,0 +1,278 @@
+#!/usr/bin/env node
+// Local stand-in for the third-party APIs www talks to, so upstream-backed
+// sections can be exercised without network access or real credentials.
+//
+//   npm run mock:upstream            # listens on :4010
+//   DISCORD_API_URL=http://localhost:4010/discord/api/v10 npm run dev
+//   CORE_ANNOUNCEMENTS_URL=http://localhost:4010/core/api/announcements npm run dev
+//   CORE_CREATORS_URL=http://localhost:4010/core/api/creators npm run dev
+//   CORE_API_URL=http://localhost:4010/core/api npm run dev   # /pricing, metered rates
+//   KV_REST_API_URL=http://localhost:4010/kv KV_REST_API_TOKEN=mock npm run dev
+//
+// Discord sign-in end to end (any client ID/secret works against the mock):
+//   DISCORD_AUTHORIZE_URL=http://localhost:4010/discord/oauth2/authorize
+//   DISCORD_API_URL=http://localhost:4010/discord/api/v10
+//   CORE_API_URL=http://localhost:4010/core/api
+//
+// MOCK_FAIL=1 makes every route answer 503, to check the static fallbacks.
+// MOCK_ACCOUNT picks who signs in: "member" (default; in the guild with a
+// Core wallet), "new" (in the guild, never entered Core) or "guest" (not in
+// the guild).
+
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.MOCK_PORT ?? 4010)
+const FAIL = process.env.MOCK_FAIL === '1'
+const ACCOUNT = process.env.MOCK_ACCOUNT ?? 'member'
+const GUILD_ID = '1000000000000000000'
+const ACCESS_TOKEN = 'mock-access-token'
+
+/** A non-200 or redirect answer; handlers return plain values for a 200 JSON body. */
+class Reply {
+  constructor(status, body, headers = {}) {
+    this.status = status
+    this.body = body
+    this.headers = headers
+  }
+}
+
+const authorized = req => req.headers.authorization === `Bearer ${ACCESS_TOKEN}`
+
+// An in-memory Redis for the KV-backed stores (src/lib/kv.ts): just the
+// commands they send, over the same REST pipeline endpoint. Expiry (SET … EX,
+// EXPIRE) is accepted and ignored. Lost when the mock restarts.
+const kvStrings = new Map()
+const kvHashes = new Map()
+const kvSortedSets = new Map()
+// Sets, and HyperLogLogs kept as exact sets.
+const kvSets = new Map()
+
+const hashAt = key => kvHashes.get(key) ?? kvHashes.set(key, new Map()).get(key)
+const setAt = key => kvSets.get(key) ?? kvSets.set(key, new Set()).get(key)
+const sortedSetAt = key => kvSortedSets.get(key) ?? kvSortedSets.set(key, []).get(key)
+// "(123" is an exclusive bound; nudging it is close enough for millisecond scores.
+const scoreBound = (bound, fallback, nudge) =>
+  bound === '-inf' || bound === '+inf' ? fallback : bound.startsWith('(') ? Number(bound.slice(1)) + nudge : Number(bound)
+
+const KV_COMMANDS = {
+  GET: ([key]) => kvStrings.get(key) ?? null,
+  SET: ([key, value, ...options]) => {
+    const flags = options.map(o => String(o).toUpperCase())
+    const previous = kvStrings.get(key) ?? null
+    if (flags.includes('NX') && previous !== null) return flags.includes('GET') ? previous : null
+    kvStrings.set(key, value)
+    return flags.includes('GET') ? previous : 'OK'
+  },
+  EXPIRE: () => 1,
+  DEL: keys =>
+    keys.filter(key => kvStrings.delete(key) || kvHashes.delete(key) || kvSortedSets.delete(key) || kvSets.delete(key)).length,
+  HGET: ([key, field]) => kvHashes.get(key)?.get(field) ?? null,
+  HSET: ([key, ...pairs]) => {
+    const hash = hashAt(key)
+    for (let i = 0; i < pairs.length; i += 2) hash.set(pairs[i], pairs[i + 1])
+    return pairs.length / 2
+  },
+  HDEL: ([key, ...fields]) => fields.filter(field => kvHashes.get(key)?.delete(field)).length,
+  HVALS: ([key]) => [...(kvHashes.get(key)?.values() ?? [])],
+  HGETALL: ([key]) => [...(kvHashes.get(key) ?? [])].flat(),
+  HINCRBY: ([key, field, by]) => {
+    const hash = hashAt(key)
+    const value = Number(hash.get(field) ?? 0) + Number(by)
+    hash.set(field, String(value))
+    return value
+  },
+  SADD: ([key, ...members]) => {
+    const set = setAt(key)
+    return members.filter(member => !set.has(member) && set.add(member)).length
+  },
+  SCARD: ([key]) => kvSets.get(key)?.size ?? 0,
+  SINTER: ([first, ...rest]) => [...(kvSets.get(first) ?? [])].filter(m => rest.every(key => kvSets.get(key)?.has(m))),
+  PFADD: ([key, ...elements]) => {
+    const set = setAt(key)
+    const before = set.size
+    for (const element of elements) set.add(element)
+    return set.size > before ? 1 : 0
+  },
+  PFCOUNT: ([key]) => kvSets.get(key)?.size ?? 0,
+  ZADD: ([key, ...pairs]) => {
+    const set = sortedSetAt(key)
+    for (let i = 0; i < pairs.length; i += 2) set.push({ score: Number(pairs[i]), member: pairs[i + 1] })
+    set.sort((a, b) => a.score - b.score)
+    return pairs.length / 2
+  },
+  ZRANGEBYSCORE: ([key, min, max]) => {
+    const lo = scoreBound(min, -Infinity, 0.5)
+    const hi = scoreBound(max, Infinity, -0.5)
+    return sortedSetAt(key).filter(e => e.score >= lo && e.score <= hi).map(e => e.member)
+  },
+  ZREMRANGEBYSCORE: ([key, min, max]) => {
+    const lo = scoreBound(min, -Infinity, 0.5)
+    const hi = scoreBound(max, Infinity, -0.5)
+    const set = sortedSetAt(key)
+    const kept = set.filter(e => e.score < lo || e.score > hi)
+    kvSortedSets.set(key, kept)
+    return set.length - kept.length
+  },
+}
+
+/** @type {Array<[RegExp, (match: RegExpMatchArray, url: URL, req: import('node:http').IncomingMessage, body: string) => unknown]>} */
+const routes = [
+  [
+    /^\/kv\/pipeline$/,
+    (_, __, req, body) => {
+      if (req.method !== 'POST') return new Reply(405, { error: 'Method not allowed' })
+      if (!req.headers.authorization?.startsWith('Bearer ')) return new Reply(401, { error: 'Unauthorized' })
+      return JSON.parse(body).map(([name, ...args]) => {
+        const command = KV_COMMANDS[String(name).toUpperCase()]
+        return command ? { result: command(args) } : { error: `ERR unknown command '${name}'` }
+      })
+    },
+  ],
+  [
+    /^\/discord\/api\/v10\/invites\/([^/]+)$/,
+    ([, code]) => ({
+      code,
+      guild: { id: GUILD_ID, name: 'Crit Fumble Gaming (mock)' },
+      approximate_member_count: 1234,
+      approximate_presence_count: 321,
+    }),
+  ],
+  [
+    // Consent screen: approves immediately and bounces back with a code.
+    /^\/discord\/oauth2\/authorize$/,
+    (_, url) => {
+      const back = new URL(url.searchParams.get('redirect_uri') ?? '')
+      back.searchParams.set('code', 'mock-code')
+      back.searchParams.set('state', url.searchParams.get('state') ?? '')
+      return new Reply(302, null, { Location: back.toString() })
+    },
+  ],
+  [
+    /^\/discord\/api\/v10\/oauth2\/token$/,
+    (_, __, req) =>
+      req.method === 'POST'
+        ? { access_token: ACCESS_TOKEN, token_type: 'Bearer', expires_in: 604800, scope: 'identify guilds.members.read' }
+        : new Reply(405, { message: 'Method not allowed' }),
+  ],
+  [
+    /^\/discord\/api\/v10\/users\/@me$/,
+    (_, __, req) =>
+      authorized(req)
+        ? { id: '200000000000000000', username: `mock-${ACCOUNT}`, global_name: `Mock ${ACCOUNT}`, avatar: null }
+        : new Reply(401, { message: '401: Unauthorized' }),
+  ],
+  [
+    /^\/discord\/api\/v10\/users\/@me\/guilds\/([^/]+)\/member$/,
+    ([, guildId], __, req) => {
+      if (!authorized(req)) return new Reply(401, { message: '401: Unauthorized' })
+      if (guildId !== GUILD_ID || ACCOUNT === 'guest') return new Reply(404, { message: 'Unknown Guild', code: 10004 })
+      return { nick: null, roles: [], joined_at: '2025-01-01T00:00:00.000Z' }
+    },
+  ],
+  [
+    /^\/core\/api\/wallet$/,
+    (_, __, req) => {
+      if (!authorized(req)) return new Reply(401, { message: 'Unauthorized' })
+      if (ACCOUNT !== 'member') return new Reply(404, { message: 'No wallet' })
+      return { balances: { CT: 12500, CC: 3, SC: 40 } }
+    },
+  ],
+  [
+    // A sample creator (not a real Core account), plus an entry the site must drop.
+    /^\/core\/api\/creators$/,
+    () => ({
+      creators: [
+        {
+          handle: 'mock-gm',
+          name: 'Mock GM',
+          bio: 'Runs whatever the mock feed says. Served by scripts/mock-upstream.mjs.',
+          systems: ['pf2e', 'cypher'],
+          campaigns: [{ name: 'The Mock Campaign', href: '/schedule' }],
+          assetPacks: [{ name: 'Mock map pack', href: 'https://core.crit-fumble.com/creators/mock-gm/packs/maps' }],
+          coreProfileUrl: 'https://core.crit-fumble.com/creators/mock-gm',
+        },
+        { handle: 'Bad Handle', name: 'Dropped', bio: 'x', systems: ['chess'] },
+      ],
+    }),
+  ],
+  [
+    // Sample tiers for /pricing — not Core's real plans or prices.
+    /^\/core\/api\/pricing$/,
+    () => ({
+      asOf: new Date().toISOString(),
+      tiers: [
+        { id: 'basic', name: 'Basic', monthlyPriceUsd: 0, monthlyCt: 2500, limits: { reseshSessionHours: 2, concurrentServers: 1 }, stripeConnect: false },
+        { id: 'plus', name: 'Plus', monthlyPriceUsd: 7, monthlyCt: 70000, limits: { reseshSessionHours: 4, concurrentServers: 2 }, stripeConnect: false, featured: true },
+        { id: 'premium', name: 'Premium', monthlyPriceUsd: 15, monthlyCt: 180000, limits: { reseshSessionHours: null, concurrentServers: 4 }, stripeConnect: true },
+        { id: 'studio', name: 'Studio', tagline: 'Mock-only tier.', monthlyPriceUsd: 40, monthlyCt: 500000, limits: { reseshSessionHours: null, concurrentServers: 10 }, stripeConnect: true },
+      ],
+    }),
+  ],
+  [
+    // Sample figures for the calculator and /servers pages — not Core's real rates.
+    /^\/core\/api\/rates$/,
+    () => ({
+      reseshCtPerHour: 1000,
+      ccPerSc: 1,
+      servers: {
+        fermi: { ctPerHour: 400, versions: ['latest'] },
+        spacebar: { ctPerHour: 300, versions: ['latest'] },
+        foundryvtt: { ctPerHour: 500, versions: ['13', '12'] },
+      },
+    }),
+  ],
+  [
+    /^\/core\/api\/announcements$/,
+    () => {
+      // Announces a maintenance window an hour out (visible from now), a
+      // non-dismissible critical notice, and an entry the site must drop.
+      const start = new Date(Date.now() + 60 * 60 * 1000)
+      const end = new Date(start.getTime() + 2 * 60 * 60 * 1000)
+      return {
+        announcements: [
+          {
+            id: 'mock-maintenance',
+            severity: 'warning',
+            message: `Core maintenance ${start.toISOString().slice(11, 16)}–${end.toISOString().slice(11, 16)} UTC (mock).`,
+            startsAt: new Date(Date.now() - 60 * 1000).toISOString(),
+            endsAt: end.toISOString(),
+            dismissible: true,
+            link: { href: '/status', label: 'Service status' },
+          },
+          {
+            id: 'mock-critical',
+            severity: 'critical',
+            message: 'This is a non-dismissible critical notice from the mock feed.',
+            dismissible: false,
+          },
+          { id: 'Not A Slug', severity: 'loud', message: '' },
+        ],
+      }
+    },
+  ],
+]
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`)
+  const send = (status, body, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    res.end(body === null ? '' : JSON.stringify(body))
+  }
+
+  if (FAIL) return send(503, { message: 'mock upstream failure' })
+
+  let body = ''
+  for await (const chunk of req) body += chunk
+
+  for (const [pattern, handler] of routes) {
+    const match = url.pathname.match(pattern)
+    if (!match) continue
+    const result = handler(match, url, req, body)
+    return result instanceof Reply ? send(result.status, result.body, result.headers) : send(200, result)
+  }
+  send(404, { message: 'Unknown mock route', path: url.pathname })
+})
+
+server.listen(PORT, () => {
+  console.log(`mock upstream listening on http://localhost:${PORT}`)
+})
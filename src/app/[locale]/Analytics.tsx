@@ -0,0 +1,47 @@
+'use client'
+
+import { usePathname } from 'next/navigation'
+import { useEffect } from 'react'
+import { clickTarget, trackClick, trackPageView } from '@/lib/analytics/client'
+
+const CLICKABLE = 'a[href], button, [role="button"], summary'
+
+// Mounted once in the root layout: one page view per client-side route and
+// a delegated click listener, so links and buttons only need a data-testid
+// to be counted — internal ones too, like the homepage's "Subscribe" CTA
+// that opens /pricing. Untagged outbound links are still counted, by host.
+export function Analytics() {
+  const pathname = usePathname()
+
+  useEffect(() => {
+    // Admin pages would only count ourselves.
+    if (!pathname.startsWith('/admin')) trackPageView(pathname)
+  }, [pathname])
+
+  useEffect(() => {
+    function onClick(event: MouseEvent) {
+      const element = (event.target as Element | null)?.closest?.<HTMLElement>(CLICKABLE)
+      if (!element) return
+      if (!(element instanceof HTMLAnchorElement)) {
+        // Middle-clicking a button doesn't do anything.
+        const target = event.type === 'click' ? clickTarget(element) : null
+        if (target) trackClick(target)
+        return
+      }
+      const url = new URL(element.href, location.href)
+      if (!url.protocol.startsWith('http')) return
+      const target = clickTarget(element, url.origin === location.origin ? undefined : url)
+      if (target) trackClick(target, url.href)
+    }
+    // Capture phase, so clicks still count when a handler stops propagation.
+    document.addEventListener('click', onClick, true)
+    // Middle-click opens a tab without firing "click".
+    document.addEventListener('auxclick', onClick, true)
+    return () => {
+      document.removeEventListener('click', onClick, true)
+      document.removeEventListener('auxclick', onClick, true)
+    }
+  }, [])
+
+  return null
+}
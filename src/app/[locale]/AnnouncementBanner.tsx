@@ -0,0 +1,81 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { type Announcement, type AnnouncementSeverity, DISMISSED_COOKIE, MAX_DISMISSED, parseDismissed } from '@/lib/announcements'
+import { readCookie } from '@/lib/cookies'
+import type { Locale } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+
+const SEVERITY_CLASSES: Record<AnnouncementSeverity, string> = {
+  info: 'bg-primary text-primary-foreground',
+  warning: 'bg-amber-400 text-slate-950',
+  critical: 'bg-red-700 text-white',
+}
+
+const ONE_YEAR_S = 365 * 24 * 60 * 60
+
+function rememberDismissal(id: string) {
+  const ids = [...new Set([...parseDismissed(readCookie(DISMISSED_COOKIE)), id])].slice(-MAX_DISMISSED)
+  document.cookie = `${DISMISSED_COOKIE}=${ids.join('.')}; path=/; max-age=${ONE_YEAR_S}; samesite=lax`
+}
+
+// The server has already dropped out-of-window announcements, and on
+// per-request pages dismissed ones too (see RootLayout). Prerendered pages
+// can't see the cookie, so their dismissed announcements are hidden here
+// once the banner mounts. Same rule as the layout: a notice that can't be
+// dismissed stays up even if its id was dismissed back when it could be.
+export function AnnouncementBanner({ announcements, locale }: { announcements: Announcement[]; locale: Locale }) {
+  const t = getMessages(locale).announcements
+  const [hidden, setHidden] = useState<ReadonlySet<string>>(new Set())
+
+  useEffect(() => {
+    setHidden(parseDismissed(readCookie(DISMISSED_COOKIE)))
+  }, [])
+
+  const visible = announcements.filter(a => !a.dismissible || !hidden.has(a.id))
+  if (visible.length === 0) return null
+
+  return (
+    <div className="relative z-50" data-testid="announcements">
+      {visible.map(announcement => (
+        <div
+          key={announcement.id}
+          role={announcement.severity === 'critical' ? 'alert' : 'status'}
+          className={`${SEVERITY_CLASSES[announcement.severity]} px-4 py-2`}
+          data-testid={`announcement-${announcement.id}`}
+        >
+          <div className="max-w-5xl mx-auto flex items-center justify-center gap-3 text-sm">
+            <p className="text-center">
+              <span className="sr-only">{t.severity[announcement.severity]}: </span>
+              {announcement.message}
+              {announcement.link && (
+                <>
+                  {' '}
+                  <Link href={announcement.link.href} className="font-semibold underline underline-offset-2 hover:no-underline">
+                    {announcement.link.label}
+                  </Link>
+                </>
+              )}
+            </p>
+            {announcement.dismissible && (
+              <button
+                type="button"
+                onClick={() => {
+                  rememberDismissal(announcement.id)
+                  setHidden(current => new Set(current).add(announcement.id))
+                }}
+                className="shrink-0 rounded p-1 opacity-80 hover:opacity-100"
+                aria-label={t.dismiss}
+              >
+                <svg className="w-4 h-4" viewBox="0 0 20 20" fill="currentColor" aria-hidden>
+                  <path d="M4.3 4.3a1 1 0 0 1 1.4 0L10 8.6l4.3-4.3a1 1 0 1 1 1.4 1.4L11.4 10l4.3 4.3a1 1 0 0 1-1.4 1.4L10 11.4l-4.3 4.3a1 1 0 0 1-1.4-1.4L8.6 10 4.3 5.7a1 1 0 0 1 0-1.4z" />
+                </svg>
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { LocaleLink } from '@/components/LocaleLink'
+import type { HealthReport, ServiceStatus } from '@/lib/health/types'
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+import { CORE_APP_URL } from '@/lib/site'
+
+type Status = 'loading' | ServiceStatus
+
+// Steady-state poll while Core is up. /api/health is cached server-side for
+// 30s, so polling faster than that would only re-read the same report.
+const ONLINE_POLL_MS = 60_000
+
+// While Core is offline, retry starting here and doubling up to the cap, so
+// the button flips back soon after a short blip without hammering during a
+// long maintenance window.
+const OFFLINE_BASE_MS = 5_000
+const OFFLINE_MAX_MS = 5 * 60_000
+
+async function fetchCoreStatus(): Promise<ServiceStatus> {
+  try {
+    const res = await fetch('/api/health', { cache: 'no-store' })
+    const data: HealthReport = await res.json()
+    return data.services?.find(s => s.id === 'core')?.status ?? (data.ok ? 'online' : 'offline')
+  } catch {
+    return 'offline'
+  }
+}
+
+export function CoreStatusButton({ locale = DEFAULT_LOCALE }: { locale?: Locale }) {
+  const [status, setStatus] = useState<Status>('loading')
+  const t = getMessages(locale).coreStatus
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancelled = false
+    let failures = 0
+
+    const schedule = (delay: number) => {
+      clearTimeout(timer)
+      timer = setTimeout(poll, delay)
+    }
+
+    async function poll() {
+      // Don't burn requests on a backgrounded tab; visibilitychange resumes.
+      if (document.visibilityState === 'hidden') return
+
+      const next = await fetchCoreStatus()
+      if (cancelled) return
+      setStatus(next)
+
+      if (next === 'offline') {
+        schedule(Math.min(OFFLINE_BASE_MS * 2 ** failures, OFFLINE_MAX_MS))
+        failures += 1
+      } else {
+        failures = 0
+        schedule(ONLINE_POLL_MS)
+      }
+    }
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        failures = 0
+        schedule(0)
+      }
+    }
+
+    poll()
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+  }, [])
+
+  if (status === 'loading') {
+    return (
+      <div className="inline-flex items-center justify-center w-full max-w-sm mx-auto rounded-lg bg-muted px-8 py-4">
+        <p className="text-lg font-display font-semibold text-muted-foreground">
+          {t.checking}
+        </p>
+      </div>
+    )
+  }
+
+  if (status === 'offline') {
+    return (
+      <div
+        className="inline-flex flex-col items-center justify-center w-full max-w-sm mx-auto rounded-lg bg-muted px-8 py-4"
+        role="status"
+        aria-live="polite"
+      >
+        <p className="text-lg font-display font-semibold text-muted-foreground">
+          {t.maintenance}
+        </p>
+        <p className="text-sm text-muted-foreground/70 mt-1">
+          {t.backSoon}
+        </p>
+      </div>
+    )
+  }
+
+  // Degraded still lets players in — Core is reachable, just slow or
+  // running with a dependency down — but says so up front.
+  return (
+    <div className="inline-flex flex-col items-center gap-2" role="status" aria-live="polite">
+      <a
+        href={CORE_APP_URL}
+        data-testid="core-enter-cta"
+        className="inline-flex items-center justify-center rounded-xl bg-primary hover:bg-primary/90 border-2 border-ring px-8 py-4 transition-colors"
+      >
+        <p className="text-lg md:text-xl font-display font-bold text-primary-foreground">
+          {t.enter}
+        </p>
+      </a>
+      {status === 'degraded' && (
+        <p className="text-sm text-amber-700 dark:text-yellow-300/90">
+          {t.degraded}{' '}
+          <LocaleLink locale={locale} href="/status" className="underline hover:text-amber-900 dark:hover:text-yellow-200">
+            {t.checkStatus}
+          </LocaleLink>
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { LocaleLink } from '@/components/LocaleLink'
+import { DiceSyntaxError, formatDiceError } from '@/lib/dice/parse'
+import { randomSeed } from '@/lib/dice/random'
+import { describeRoll, roll, rollPermalink, type RollResult } from '@/lib/dice/roll'
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+
+const PRESETS = ['1d20', '1d20+5 adv', '4d6kh3', '3d6!', 'cypher', 'd%']
+
+export function DiceRoller({ locale = DEFAULT_LOCALE }: { locale?: Locale }) {
+  const t = getMessages(locale).dice
+  const [input, setInput] = useState('1d20')
+  const [result, setResult] = useState<RollResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  function rollExpression(expression: string) {
+    setInput(expression)
+    try {
+      setResult(roll(expression, randomSeed()))
+      setError(null)
+    } catch (err) {
+      if (!(err instanceof DiceSyntaxError)) throw err
+      setResult(null)
+      setError(formatDiceError(err, t))
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-4" data-testid="dice-roller">
+      <form
+        className="flex gap-2"
+        onSubmit={e => {
+          e.preventDefault()
+          rollExpression(input)
+        }}
+      >
+        <label htmlFor="dice-expression" className="sr-only">
+          {t.expression}
+        </label>
+        <input
+          id="dice-expression"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          spellCheck={false}
+          autoComplete="off"
+          className="flex-1 min-w-0 rounded-lg border-input bg-muted font-mono text-card-foreground focus:border-ring focus:ring-ring"
+          aria-invalid={error !== null}
+          aria-describedby={error ? 'dice-error' : undefined}
+        />
+        <button
+          type="submit"
+          className="rounded-lg bg-primary hover:bg-primary/90 border-2 border-ring px-6 font-display font-bold text-primary-foreground transition-colors"
+        >
+          {t.roll}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {PRESETS.map(preset => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => rollExpression(preset)}
+            className="rounded-md bg-muted hover:bg-accent px-3 py-1 font-mono text-sm text-card-foreground transition-colors"
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p id="dice-error" className="text-sm text-destructive text-center" role="alert">
+          {error}
+        </p>
+      )}
+
+      {result && (
+        <div className="flex flex-col items-center gap-2" aria-live="polite">
+          <p className="text-5xl font-display font-bold text-foreground">{result.total}</p>
+          <p className="font-mono text-sm text-muted-foreground text-center break-all">
+            {result.notation}: {describeRoll(result)}
+          </p>
+          {result.cypherEffect && (
+            <p className="text-link font-semibold">{t.effects[result.cypherEffect]}</p>
+          )}
+          <LocaleLink
+            locale={locale}
+            href={rollPermalink(result.notation, result.seed)}
+            className="text-sm text-link hover:text-link/80 underline"
+          >
+            {t.permalink}
+          </LocaleLink>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { Message } from '@/components/Message'
+import {
+  ccNeededFor,
+  ctForHours,
+  type Currency,
+  FREE_MONTHLY_CT,
+  formatAmount,
+  type MeteredActivity,
+  meteredActivities,
+  scToCc,
+  scToUsd,
+} from '@/lib/economy'
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locales'
+import { formatMessage, getMessages, type Messages } from '@/lib/i18n/messages'
+import type { Rates } from '@/lib/rates'
+import { SERVER_KINDS } from '@/lib/servers'
+
+const inputClass =
+  'w-full rounded-lg border-input bg-muted text-card-foreground focus:border-ring focus:ring-ring'
+
+// Parses a number input without letting an empty or negative field turn
+// into NaN/negative totals downstream.
+function toNonNegative(value: string): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+// Server names are product names and stay as they are; the rest of the
+// label comes from the catalog.
+function activityLabel(activity: MeteredActivity, t: Messages['calculator']): string {
+  const kind = SERVER_KINDS.find(k => k.slug === activity.id)
+  return kind ? formatMessage(t.hostingActivity, { server: kind.name }) : t.reseshActivity
+}
+
+/** `rates` from lib/rates (server-side); whatever Core didn't supply is left out. */
+export function EconomyCalculator({ rates, locale = DEFAULT_LOCALE }: { rates: Rates; locale?: Locale }) {
+  const t = getMessages(locale).calculator
+  const amount = (value: number, currency: Currency) => formatAmount(value, currency, locale)
+  const id = useId()
+  const activities = meteredActivities(rates)
+  const [activityId, setActivityId] = useState(activities[0]?.id)
+  const [hours, setHours] = useState('4')
+  const [useGrant, setUseGrant] = useState(true)
+  const [storyCredit, setStoryCredit] = useState('100')
+
+  const activity = activities.find(a => a.id === activityId) ?? activities[0]
+  const ct = activity ? ctForHours(activity, toNonNegative(hours)) : 0
+  const cc = ccNeededFor(ct, useGrant ? FREE_MONTHLY_CT : 0)
+  const sc = toNonNegative(storyCredit)
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6" data-testid="economy-calculator">
+      {/* Usage → CT → CC */}
+      <form className="flex flex-col gap-4" onSubmit={e => e.preventDefault()}>
+        <h3 className="text-lg font-display font-bold text-foreground">{t.usageHeading}</h3>
+        {activity ? (
+          <>
+            <label className="flex flex-col gap-1 text-sm text-muted-foreground" htmlFor={`${id}-activity`}>
+              {t.activity}
+              <select
+                id={`${id}-activity`}
+                value={activityId}
+                onChange={e => setActivityId(e.target.value)}
+                className={inputClass}
+              >
+                {activities.map(a => (
+                  <option key={a.id} value={a.id}>
+                    {activityLabel(a, t)} ({formatMessage(t.perHour, { amount: amount(a.ctPerHour, 'CT') })})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-muted-foreground" htmlFor={`${id}-hours`}>
+              {t.hours}
+              <input
+                id={`${id}-hours`}
+                type="number"
+                min={0}
+                step={0.5}
+                value={hours}
+                onChange={e => setHours(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={useGrant}
+                onChange={e => setUseGrant(e.target.checked)}
+                className="rounded border-input bg-muted text-primary focus:ring-ring"
+              />
+              {formatMessage(t.useGrant, { amount: amount(FREE_MONTHLY_CT, 'CT') })}
+            </label>
+            <p className="text-card-foreground" aria-live="polite">
+              <Message
+                text={cc === 0 ? t.coveredByGrant : t.needsCoins}
+                values={{ ct: <strong>{amount(ct, 'CT')}</strong>, cc: <strong>{amount(cc, 'CC')}</strong> }}
+              />
+            </p>
+          </>
+        ) : (
+          <p className="text-muted-foreground" data-testid="calculator-rates-unavailable">
+            {t.ratesUnavailable}
+          </p>
+        )}
+      </form>
+
+      {/* SC → USD / CC */}
+      <form className="flex flex-col gap-4" onSubmit={e => e.preventDefault()}>
+        <h3 className="text-lg font-display font-bold text-foreground">{t.storyCreditHeading}</h3>
+        <label className="flex flex-col gap-1 text-sm text-muted-foreground" htmlFor={`${id}-sc`}>
+          {t.storyCreditBalance}
+          <input
+            id={`${id}-sc`}
+            type="number"
+            min={0}
+            step={1}
+            value={storyCredit}
+            onChange={e => setStoryCredit(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <p className="text-card-foreground" aria-live="polite">
+          <Message
+            text={rates.ccPerSc === null ? t.storyCreditCashOut : t.storyCreditWorth}
+            values={{
+              sc: <strong>{amount(sc, 'SC')}</strong>,
+              usd: <strong>{amount(scToUsd(sc), 'USD')}</strong>,
+              cc: rates.ccPerSc !== null && <strong>{amount(scToCc(sc, rates.ccPerSc), 'CC')}</strong>,
+            }}
+          />
+        </p>
+      </form>
+    </div>
+  )
+}
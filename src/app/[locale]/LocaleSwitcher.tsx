@@ -0,0 +1,41 @@
+'use client'
+
+import { type Locale, LOCALE_COOKIE, LOCALE_NAMES, localePath, LOCALES } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+
+const ONE_YEAR_S = 365 * 24 * 60 * 60
+
+/**
+ * Links to this page in every language. Choosing one is remembered in a
+ * cookie, which src/proxy.ts prefers over Accept-Language from then on.
+ * Plain links rather than next/link: the root layout (html lang, theme
+ * toggle labels) has to re-render in the new language too.
+ */
+export function LocaleSwitcher({ locale, path, className = '' }: { locale: Locale; path: string; className?: string }) {
+  const t = getMessages(locale).localeSwitcher
+
+  return (
+    <nav aria-label={t.label} className={`flex items-center gap-3 text-xs ${className}`} data-testid="locale-switcher">
+      {LOCALES.map(option =>
+        option === locale ? (
+          <span key={option} aria-current="page" lang={option} className="font-semibold">
+            {LOCALE_NAMES[option]}
+          </span>
+        ) : (
+          <a
+            key={option}
+            href={localePath(option, path)}
+            hrefLang={option}
+            lang={option}
+            onClick={() => {
+              document.cookie = `${LOCALE_COOKIE}=${option}; path=/; max-age=${ONE_YEAR_S}; samesite=lax`
+            }}
+            className="opacity-70 hover:opacity-100 transition-opacity"
+          >
+            {LOCALE_NAMES[option]}
+          </a>
+        ),
+      )}
+    </nav>
+  )
+}
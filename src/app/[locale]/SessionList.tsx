@@ -0,0 +1,84 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { formatDate } from '@/lib/i18n/format'
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locales'
+import { formatMessage, getMessages } from '@/lib/i18n/messages'
+import type { SerializedOccurrence } from '@/lib/schedule/schedule'
+
+// Session times are rendered in the visitor's own time zone, which only the
+// browser knows. The server (and hydration) render uses each session's home
+// zone with an explicit abbreviation, so the first paint is already correct —
+// just not yet localized.
+
+const subscribe = () => () => {}
+
+function useIsClient(): boolean {
+  return useSyncExternalStore(subscribe, () => true, () => false)
+}
+
+function formatWhen(item: SerializedOccurrence, timeZone: string | undefined, locale: Locale) {
+  const start = new Date(item.start)
+  const end = new Date(item.end)
+  const date = formatDate(start, locale, { timeZone, weekday: 'short', month: 'short', day: 'numeric' })
+  const from = formatDate(start, locale, { timeZone, hour: 'numeric', minute: '2-digit' })
+  const to = formatDate(end, locale, { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })
+  return `${date} · ${from} – ${to}`
+}
+
+export function SessionList({
+  sessions,
+  showDescriptions = false,
+  showTimeZoneNote = false,
+  locale = DEFAULT_LOCALE,
+}: {
+  sessions: SerializedOccurrence[]
+  showDescriptions?: boolean
+  showTimeZoneNote?: boolean
+  locale?: Locale
+}) {
+  const isClient = useIsClient()
+  const t = getMessages(locale).sessions
+
+  if (sessions.length === 0) {
+    return <p className="text-muted-foreground text-center">{t.empty}</p>
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {showTimeZoneNote && (
+        <p className="text-sm text-muted-foreground text-center" aria-live="polite">
+          {isClient
+            ? formatMessage(t.localTimeZone, { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+            : t.homeTimeZone}
+        </p>
+      )}
+      <ul className="divide-y divide-border" data-testid="session-list">
+        {sessions.map(item => (
+          <li key={item.id} className="py-4 flex flex-col gap-1 md:flex-row md:items-baseline md:justify-between md:gap-6">
+            <div className="flex flex-col gap-1">
+              <span className="text-lg font-display font-bold text-foreground">
+                {item.title}
+                <span className="ml-2 align-middle rounded-full bg-primary px-2 py-0.5 text-xs font-sans font-normal text-primary-foreground">
+                  {item.system}
+                </span>
+              </span>
+              <time dateTime={item.start} className="text-link">
+                {formatWhen(item, isClient ? undefined : item.timeZone, locale)}
+              </time>
+              {showDescriptions && item.description && <p className="text-muted-foreground text-sm">{item.description}</p>}
+            </div>
+            <a
+              href={item.voiceChannel.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="shrink-0 text-sm text-muted-foreground hover:text-card-foreground transition-colors"
+            >
+              🔊 {item.voiceChannel.name}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { createContext, type ReactNode, useCallback, useContext, useEffect, useState } from 'react'
+import { readCookie } from '@/lib/cookies'
+import { parseThemePreference, type ResolvedTheme, THEME_COOKIE, type ThemePreference } from '@/lib/theme'
+
+const ONE_YEAR_S = 365 * 24 * 60 * 60
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+interface ThemeContextValue {
+  preference: ThemePreference
+  setPreference: (preference: ThemePreference) => void
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null)
+
+function systemTheme(): ResolvedTheme {
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light'
+}
+
+function applyTheme(theme: ResolvedTheme) {
+  const root = document.documentElement
+  root.classList.remove('light', 'dark')
+  root.classList.add(theme)
+  root.style.colorScheme = theme
+}
+
+// The initial class is already on <html> (server-rendered or set by the
+// inline script in RootLayout); this only reacts to later changes — the
+// toggle, and the OS switching while the preference is "system".
+//
+// Prerendered pages have no cookie to read, so they pass "system" whatever
+// the visitor chose; the inline script still applied the right theme, and
+// the preference catches up from the cookie on mount.
+export function ThemeProvider({ initialPreference, children }: { initialPreference: ThemePreference; children: ReactNode }) {
+  const [preference, setPreferenceState] = useState(initialPreference)
+
+  useEffect(() => {
+    setPreferenceState(parseThemePreference(readCookie(THEME_COOKIE)))
+  }, [])
+
+  useEffect(() => {
+    if (preference !== 'system') return
+    const media = window.matchMedia(DARK_QUERY)
+    const onChange = () => applyTheme(systemTheme())
+    media.addEventListener('change', onChange)
+    return () => media.removeEventListener('change', onChange)
+  }, [preference])
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    document.cookie =
+      next === 'system'
+        ? `${THEME_COOKIE}=; path=/; max-age=0; samesite=lax`
+        : `${THEME_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_S}; samesite=lax`
+    applyTheme(next === 'system' ? systemTheme() : next)
+    setPreferenceState(next)
+  }, [])
+
+  return <ThemeContext.Provider value={{ preference, setPreference }}>{children}</ThemeContext.Provider>
+}
+
+export function useTheme(): ThemeContextValue {
+  const value = useContext(ThemeContext)
+  if (!value) throw new Error('useTheme must be used inside <ThemeProvider>')
+  return value
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import type { Locale } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+import type { ThemePreference } from '@/lib/theme'
+import { useTheme } from './ThemeProvider'
+
+const OPTIONS: Array<{ value: ThemePreference; icon: ReactNode }> = [
+  {
+    value: 'light',
+    icon: (
+      <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} aria-hidden>
+        <circle cx="12" cy="12" r="4" />
+        <path d="M12 2v2M12 20v2M4.93 4.93l1.41 1.41M17.66 17.66l1.41 1.41M2 12h2M20 12h2M4.93 19.07l1.41-1.41M17.66 6.34l1.41-1.41" />
+      </svg>
+    ),
+  },
+  {
+    value: 'dark',
+    icon: (
+      <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} aria-hidden>
+        <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
+      </svg>
+    ),
+  },
+  {
+    value: 'system',
+    icon: (
+      <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} aria-hidden>
+        <rect x="2" y="3" width="20" height="14" rx="2" />
+        <path d="M8 21h8M12 17v4" />
+      </svg>
+    ),
+  },
+]
+
+/** Light / dark / system switch, pinned to the corner of every page. */
+export function ThemeToggle({ locale }: { locale: Locale }) {
+  const { preference, setPreference } = useTheme()
+  const t = getMessages(locale).theme
+
+  return (
+    <div
+      role="group"
+      aria-label={t.group}
+      className="fixed bottom-4 right-4 z-50 flex gap-1 rounded-full border border-border bg-card/90 p-1 shadow-lg backdrop-blur"
+      data-testid="theme-toggle"
+    >
+      {OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => setPreference(option.value)}
+          aria-pressed={preference === option.value}
+          aria-label={t[option.value]}
+          title={t[option.value]}
+          className={`rounded-full p-2 transition-colors ${
+            preference === option.value
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+          }`}
+        >
+          {option.icon}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import { useActionState } from 'react'
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+import { joinWaitlist, type WaitlistFormState } from './waitlist/actions'
+
+const initialState: WaitlistFormState = { status: 'idle' }
+
+export function WaitlistForm({ locale = DEFAULT_LOCALE }: { locale?: Locale }) {
+  const [state, formAction, pending] = useActionState(joinWaitlist, initialState)
+  const t = getMessages(locale).waitlist
+
+  if (state.status === 'sent') {
+    return (
+      <p className="text-card-foreground text-center" role="status" data-testid="waitlist-sent">
+        {t.sent}
+      </p>
+    )
+  }
+
+  return (
+    <form action={formAction} className="w-full max-w-sm mx-auto flex flex-col gap-2" data-testid="waitlist-form">
+      <label htmlFor="waitlist-email" className="text-sm text-muted-foreground text-center">
+        {t.label}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="waitlist-email"
+          name="email"
+          type="email"
+          required
+          autoComplete="email"
+          placeholder={t.placeholder}
+          className="flex-1 min-w-0 rounded-lg border-input bg-muted text-card-foreground placeholder:text-muted-foreground focus:border-ring focus:ring-ring"
+        />
+        <button
+          type="submit"
+          disabled={pending}
+          className="rounded-lg bg-primary hover:bg-primary/90 border-2 border-ring px-4 font-display font-bold text-primary-foreground transition-colors disabled:opacity-60"
+        >
+          {pending ? t.sending : t.submit}
+        </button>
+      </div>
+      {/* Honeypot — see joinWaitlist. */}
+      <input type="text" name="website" tabIndex={-1} autoComplete="off" aria-hidden className="hidden" />
+      {state.status === 'error' && state.error && (
+        <p className="text-sm text-destructive text-center" role="alert">
+          {t.errors[state.error]}
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,127 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import Link from 'next/link'
+import { NextStepCta, OnboardingSteps } from '@/components/OnboardingSteps'
+import { getCurrentAccount } from '@/lib/account'
+import { displayUser, isSignInEnabled, SIGN_IN_ERROR_MESSAGES, type SignInError } from '@/lib/auth/discord'
+import type { WalletLookup } from '@/lib/core/client'
+import { getLocale, type LocaleParams } from '@/lib/i18n/server'
+import { CORE_WALLET_URL } from '@/lib/site'
+
+export const metadata: Metadata = {
+  title: 'Your account — Crit-Fumble Gaming',
+  robots: { index: false, follow: false },
+}
+
+type Props = { params: LocaleParams; searchParams: Promise<{ error?: string | string[] }> }
+
+const CURRENCIES = [
+  { key: 'CT', label: 'Compute Tokens' },
+  { key: 'CC', label: 'Crit-Coins' },
+  { key: 'SC', label: 'Story Credit' },
+] as const
+
+function isSignInError(value: unknown): value is SignInError {
+  return typeof value === 'string' && value in SIGN_IN_ERROR_MESSAGES
+}
+
+function Wallet({ wallet }: { wallet: WalletLookup }) {
+  if (wallet.status === 'no-account') {
+    return <p className="text-muted-foreground text-center">Your wallet opens the first time you enter Core.</p>
+  }
+  if (wallet.status === 'unavailable') {
+    return <p className="text-muted-foreground text-center">Balances are unavailable right now — Core may be under maintenance.</p>
+  }
+  return (
+    <dl className="grid grid-cols-3 gap-4" data-testid="wallet-balances">
+      {CURRENCIES.map(({ key, label }) => (
+        <div key={key} className="flex flex-col items-center gap-1 rounded-lg bg-muted px-3 py-4">
+          <dt className="text-xs uppercase tracking-wider text-muted-foreground">{label}</dt>
+          <dd className="text-2xl font-display font-bold text-card-foreground">
+            {wallet.balances[key].toLocaleString('en-US')} <span className="text-sm text-muted-foreground">{key}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+export default async function AccountPage({ params, searchParams }: Props) {
+  const [account, locale] = await Promise.all([getCurrentAccount(), getLocale(params)])
+  const error = (await searchParams).error
+  const user = account && displayUser(account.session.user)
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="account-page">
+      <div className="max-w-2xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        <section aria-labelledby="account-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6 flex items-center justify-center gap-4">
+            {user && <Image src={user.avatarUrl} alt="" width={56} height={56} className="rounded-full shrink-0" unoptimized />}
+            <h1 id="account-heading" className="text-3xl font-display font-bold text-primary-foreground text-center">
+              {user ? `Welcome, ${user.name}` : 'Your account'}
+            </h1>
+          </div>
+
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            {!isSignInEnabled() ? (
+              <p className="text-card-foreground text-center">Signing in isn&apos;t available right now. Please check back later.</p>
+            ) : !account ? (
+              <div className="flex flex-col items-center gap-6">
+                {isSignInError(error) && (
+                  <p className="text-sm text-destructive text-center" role="alert">
+                    {SIGN_IN_ERROR_MESSAGES[error]}
+                  </p>
+                )}
+                <p className="text-card-foreground text-center">
+                  Sign in with Discord to see whether you&apos;re set up for Core, your wallet balances and what to do next.
+                </p>
+                <a
+                  href="/api/auth/discord/login?returnTo=/account"
+                  className="inline-flex items-center justify-center rounded-xl bg-discord hover:bg-discord-dark px-8 py-4 font-display font-bold text-lg text-white transition-colors"
+                  data-testid="discord-sign-in-cta"
+                >
+                  Sign in with Discord
+                </a>
+              </div>
+            ) : (
+              <>
+                {account.overview.member === null && (
+                  <p className="text-sm text-muted-foreground text-center">
+                    We couldn&apos;t check your Discord membership just now.
+                  </p>
+                )}
+
+                <OnboardingSteps overview={account.overview} locale={locale} />
+                <div className="text-center">
+                  <NextStepCta overview={account.overview} locale={locale} />
+                </div>
+
+                <div className="flex flex-col gap-4 border-t border-border pt-6">
+                  <h2 className="text-xl font-display font-bold text-card-foreground text-center">Wallet</h2>
+                  <Wallet wallet={account.overview.wallet} />
+                  {account.overview.wallet.status === 'ok' && (
+                    <a href={CORE_WALLET_URL} className="text-center text-link hover:text-link/80 font-semibold">
+                      Manage your wallet in Core →
+                    </a>
+                  )}
+                </div>
+
+                <form action="/api/auth/logout" method="post" className="text-center">
+                  <button type="submit" className="text-sm text-muted-foreground hover:text-card-foreground underline">
+                    Sign out
+                  </button>
+                </form>
+              </>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
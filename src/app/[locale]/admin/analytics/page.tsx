@@ -0,0 +1,161 @@
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { isAdminAuthorized } from '@/lib/admin'
+import { buildReport, FUNNEL_STEPS } from '@/lib/analytics/report'
+import { getAnalyticsStore } from '@/lib/analytics/store'
+
+export const metadata: Metadata = {
+  title: 'Analytics — admin',
+  robots: { index: false, follow: false },
+}
+
+const RANGES = [7, 30, 90] as const
+
+type Props = { searchParams: Promise<{ days?: string | string[] }> }
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`
+}
+
+export default async function AnalyticsAdminPage({ searchParams }: Props) {
+  // src/proxy.ts already demands credentials; this keeps the page safe if
+  // the matcher ever stops covering it.
+  if (!isAdminAuthorized((await headers()).get('authorization'))) notFound()
+
+  const requested = Number((await searchParams).days)
+  const days = RANGES.find(r => r === requested) ?? 30
+  const until = new Date()
+  const since = new Date(until.getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+  since.setUTCHours(0, 0, 0, 0)
+
+  const report = buildReport(await getAnalyticsStore().days(since, until), since, until)
+  const maxPageviews = Math.max(1, ...report.days.map(d => d.pageviews))
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="admin-analytics">
+      <div className="max-w-5xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-display font-bold text-foreground">Analytics</h1>
+          <nav className="flex gap-2" aria-label="Range">
+            {RANGES.map(range => (
+              <Link
+                key={range}
+                href={`/admin/analytics?days=${range}`}
+                className={`rounded-md px-3 py-1 text-sm ${
+                  range === days ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-accent'
+                }`}
+              >
+                {range} days
+              </Link>
+            ))}
+          </nav>
+        </div>
+
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            ['Page views', report.totals.pageviews.toLocaleString('en-US')],
+            ['Daily visitors (sum)', report.totals.visitors.toLocaleString('en-US')],
+            ['Clicks', report.totals.clicks.toLocaleString('en-US')],
+            ['Discord → Core', percent(report.conversion)],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-card rounded-lg px-5 py-4">
+              <dt className="text-sm text-muted-foreground">{label}</dt>
+              <dd className="text-2xl font-display font-bold text-foreground">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <p className="text-sm text-muted-foreground">
+          Conversion is the share of visitors who clicked a Discord step ({FUNNEL_STEPS.discord.join(', ')}) who also
+          clicked a Core step ({FUNNEL_STEPS.core.join(', ')}) on the same UTC day, in either order. Visitor hashes
+          rotate daily, so journeys across days aren&apos;t linked.
+        </p>
+
+        <section className="bg-card rounded-lg px-6 py-6 overflow-x-auto">
+          <h2 className="text-xl font-display font-bold text-foreground mb-4">Daily</h2>
+          <table className="w-full text-sm text-card-foreground">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="py-2 pr-4 font-normal">Day (UTC)</th>
+                <th className="py-2 pr-4 font-normal">Page views</th>
+                <th className="py-2 pr-4 font-normal text-right">Visitors</th>
+                <th className="py-2 pr-4 font-normal text-right">Clicks</th>
+                <th className="py-2 pr-4 font-normal text-right">Discord</th>
+                <th className="py-2 pr-4 font-normal text-right">→ Core</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {[...report.days].reverse().map(d => (
+                <tr key={d.day}>
+                  <td className="py-2 pr-4 font-mono">{d.day}</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="h-2 rounded bg-ring"
+                        style={{ width: `${(d.pageviews / maxPageviews) * 8}rem` }}
+                        aria-hidden
+                      />
+                      {d.pageviews}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{d.visitors}</td>
+                  <td className="py-2 pr-4 text-right">{d.clicks}</td>
+                  <td className="py-2 pr-4 text-right">{d.discordVisitors}</td>
+                  <td className="py-2 pr-4 text-right">{d.coreAfterDiscord}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <section className="bg-card rounded-lg px-6 py-6">
+            <h2 className="text-xl font-display font-bold text-foreground mb-4">Clicks</h2>
+            {report.topTargets.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No clicks recorded yet.</p>
+            ) : (
+              <table className="w-full text-sm text-card-foreground">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-2 pr-4 font-normal">Target</th>
+                    <th className="py-2 pr-4 font-normal text-right">Clicks</th>
+                    <th className="py-2 font-normal text-right">Visitors</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {report.topTargets.map(t => (
+                    <tr key={t.target}>
+                      <td className="py-2 pr-4 font-mono">{t.target}</td>
+                      <td className="py-2 pr-4 text-right">{t.clicks}</td>
+                      <td className="py-2 text-right">{t.visitors}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="bg-card rounded-lg px-6 py-6">
+            <h2 className="text-xl font-display font-bold text-foreground mb-4">Top pages</h2>
+            {report.topPaths.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No page views recorded yet.</p>
+            ) : (
+              <table className="w-full text-sm text-card-foreground">
+                <tbody className="divide-y divide-border">
+                  {report.topPaths.map(p => (
+                    <tr key={p.path}>
+                      <td className="py-2 pr-4 font-mono">{p.path}</td>
+                      <td className="py-2 text-right">{p.pageviews}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
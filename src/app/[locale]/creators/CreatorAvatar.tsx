@@ -0,0 +1,34 @@
+import Image from 'next/image'
+import type { Creator } from '@/lib/creators'
+
+// Avatar or initials. Remote avatars skip the optimizer: they're already
+// small, and the CDN host isn't in next.config images.
+export function CreatorAvatar({ creator, size }: { creator: Creator; size: number }) {
+  if (creator.avatar) {
+    return (
+      <Image
+        src={creator.avatar}
+        alt=""
+        width={size}
+        height={size}
+        className="rounded-full shrink-0"
+        unoptimized={creator.avatar.startsWith('https://')}
+      />
+    )
+  }
+  const initials = creator.name
+    .split(/\s+/)
+    .map(word => word[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase()
+  return (
+    <span
+      className="flex shrink-0 items-center justify-center rounded-full bg-accent font-display font-bold text-accent-foreground"
+      style={{ width: size, height: size, fontSize: size * 0.4 }}
+      aria-hidden
+    >
+      {initials}
+    </span>
+  )
+}
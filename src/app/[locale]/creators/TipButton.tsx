@@ -0,0 +1,18 @@
+import { type Creator, tipUrl } from '@/lib/creators'
+
+/** Opens Core's wallet with this creator pre-selected as the tip recipient. */
+export function TipButton({ creator, size = 'md' }: { creator: Creator; size?: 'md' | 'lg' }) {
+  return (
+    <a
+      href={tipUrl(creator)}
+      target="_blank"
+      rel="noopener noreferrer"
+      data-testid="creator-tip-cta"
+      className={`inline-flex items-center justify-center rounded-xl bg-primary hover:bg-primary/90 border-2 border-ring ${
+        size === 'lg' ? 'px-8 py-4 text-lg' : 'px-4 py-2 text-sm'
+      } font-display font-bold text-primary-foreground transition-colors`}
+    >
+      Tip {creator.name}
+    </a>
+  )
+}
@@ -0,0 +1,101 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { type CreatorLink, gameSystemName, getCreator } from '@/lib/creators'
+import { pageMetadata } from '@/lib/metadata'
+import { CreatorAvatar } from '../CreatorAvatar'
+import { TipButton } from '../TipButton'
+
+// Not prerendered: the registry can come from Core at request time, so
+// profiles appear without a deploy.
+
+type Props = { params: Promise<{ handle: string }> }
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const creator = await getCreator((await params).handle)
+  if (!creator) return {}
+  return pageMetadata({
+    title: `${creator.name} — creator`,
+    description: creator.bio,
+    path: `/creators/${creator.handle}`,
+    ogSubtitle: creator.systems.map(gameSystemName).join(' · '),
+  })
+}
+
+function LinkList({ heading, links }: { heading: string; links: CreatorLink[] }) {
+  if (links.length === 0) return null
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-lg font-display font-bold text-card-foreground">{heading}</h2>
+      <ul className="flex flex-col gap-1">
+        {links.map(link => (
+          <li key={link.href}>
+            {link.href.startsWith('/') ? (
+              <Link href={link.href} className="text-link hover:text-link/80">
+                {link.name}
+              </Link>
+            ) : (
+              <a href={link.href} target="_blank" rel="noopener noreferrer" className="text-link hover:text-link/80">
+                {link.name} ↗
+              </a>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default async function CreatorPage({ params }: Props) {
+  const creator = await getCreator((await params).handle)
+  if (!creator) notFound()
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="creator-page">
+      <div className="max-w-3xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/creators" className="text-sm text-link hover:text-link/80">
+            ← All creators
+          </Link>
+        </div>
+
+        <section aria-labelledby="creator-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6 flex items-center justify-center gap-4">
+            <CreatorAvatar creator={creator} size={72} />
+            <div className="flex flex-col gap-1">
+              <h1 id="creator-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground">
+                {creator.name}
+              </h1>
+              <p className="text-sm text-primary-foreground/80">{creator.systems.map(gameSystemName).join(' · ')}</p>
+            </div>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            <p className="text-card-foreground leading-relaxed">{creator.bio}</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <LinkList heading="Campaigns" links={creator.campaigns} />
+              <LinkList heading="Asset packs" links={creator.assetPacks} />
+            </div>
+
+            <div className="flex flex-col items-center gap-3 border-t border-border pt-6">
+              <p className="text-card-foreground text-center">
+                Enjoyed a session or a pack? Tip {creator.name} Crit-Coins — they receive it as Story Credit.
+              </p>
+              <TipButton creator={creator} size="lg" />
+              {creator.coreProfileUrl && (
+                <a
+                  href={creator.coreProfileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-link hover:text-link/80"
+                >
+                  View profile in Core ↗
+                </a>
+              )}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { GAME_SYSTEMS, gameSystemName, getCreators, isGameSystem } from '@/lib/creators'
+import { pageMetadata } from '@/lib/metadata'
+import { CreatorAvatar } from './CreatorAvatar'
+import { TipButton } from './TipButton'
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Creators & GMs',
+  description: 'The game masters and creators behind Crit Fumble Gaming. Find a table, grab their asset packs, and tip them Story Credit.',
+  path: '/creators',
+})
+
+type Props = { searchParams: Promise<{ system?: string | string[] }> }
+
+const chipClass = (active: boolean) =>
+  `rounded-full px-3 py-1 text-sm transition-colors ${
+    active ? 'bg-primary text-primary-foreground' : 'bg-muted text-card-foreground hover:bg-accent'
+  }`
+
+export default async function CreatorsPage({ searchParams }: Props) {
+  const requested = (await searchParams).system
+  const system = isGameSystem(requested) ? requested : undefined
+
+  const allCreators = await getCreators()
+  // Only offer filters someone actually runs, in catalog order.
+  const systems = GAME_SYSTEMS.filter(s => allCreators.some(c => c.systems.includes(s.slug)))
+  const creators = system ? allCreators.filter(c => c.systems.includes(system)) : allCreators
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="creators-page">
+      <div className="max-w-3xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        <section aria-labelledby="creators-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6">
+            <h1 id="creators-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              Creators &amp; GMs
+            </h1>
+            <p className="text-primary-foreground/80 text-center mt-2">
+              Tips arrive as Story Credit, which creators can cash out or spend on Core.
+            </p>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            {systems.length > 1 && (
+              <nav aria-label="Filter by game system" className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground mr-1">System</span>
+                <Link href="/creators" className={chipClass(!system)}>All</Link>
+                {systems.map(s => (
+                  <Link key={s.slug} href={`/creators?system=${s.slug}`} className={chipClass(s.slug === system)}>
+                    {s.name}
+                  </Link>
+                ))}
+              </nav>
+            )}
+
+            {allCreators.length === 0 ? (
+              <p className="text-muted-foreground text-center" data-testid="creators-empty">
+                The directory is empty right now — check back soon, or find a table on Discord.
+              </p>
+            ) : creators.length === 0 ? (
+              <p className="text-muted-foreground text-center">Nobody runs that system here yet — ask on Discord.</p>
+            ) : (
+              <ul className="divide-y divide-border" data-testid="creator-list">
+                {creators.map(creator => (
+                  <li key={creator.handle} className="py-5 flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-5">
+                    <Link href={`/creators/${creator.handle}`} className="group flex flex-1 items-start gap-4">
+                      <CreatorAvatar creator={creator} size={56} />
+                      <span className="flex flex-col gap-1">
+                        <span className="text-xl font-display font-bold text-foreground group-hover:text-link">
+                          {creator.name}
+                        </span>
+                        <span className="text-sm text-muted-foreground">{creator.systems.map(gameSystemName).join(' · ')}</span>
+                        <span className="text-card-foreground">{creator.bio}</span>
+                      </span>
+                    </Link>
+                    <div className="shrink-0 self-start sm:self-center">
+                      <TipButton creator={creator} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
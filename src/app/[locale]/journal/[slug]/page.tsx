@@ -0,0 +1,80 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { formatPostDate, getAllPosts, getPost } from '@/lib/journal/posts'
+import { pageMetadata } from '@/lib/metadata'
+
+export const dynamicParams = false
+
+type Props = { params: Promise<{ slug: string }> }
+
+// Also where bad frontmatter fails the build: every post is loaded and
+// validated here at build time.
+export async function generateStaticParams() {
+  return (await getAllPosts()).map(post => ({ slug: post.slug }))
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const post = await getPost((await params).slug)
+  if (!post) return {}
+  return pageMetadata({
+    title: post.title,
+    description: post.summary ?? `${post.title} — from the Crit Fumble Gaming journal.`,
+    path: `/journal/${post.slug}`,
+  })
+}
+
+export default async function JournalPostPage({ params }: Props) {
+  const post = await getPost((await params).slug)
+  if (!post) notFound()
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="journal-post">
+      <div className="max-w-3xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/journal" className="text-sm text-link hover:text-link/80">
+            ← Journal
+          </Link>
+        </div>
+
+        <article aria-labelledby="post-heading">
+          <header className="bg-primary rounded-t-lg px-8 py-6 flex flex-col items-center gap-2">
+            <h1 id="post-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              {post.title}
+            </h1>
+            <p className="text-sm text-primary-foreground/80">
+              <time dateTime={post.date}>{formatPostDate(post.date)}</time> · {post.author}
+            </p>
+          </header>
+          <div className="bg-card rounded-b-lg px-8 py-10">
+            <div className="prose dark:prose-invert prose-lg max-w-none prose-a:text-link hover:prose-a:text-link/80">
+              {post.content}
+            </div>
+
+            {(post.campaign || post.tags.length > 0) && (
+              <div className="flex flex-wrap gap-2 mt-10 pt-6 border-t border-border">
+                {post.campaign && (
+                  <Link
+                    href={`/journal?campaign=${encodeURIComponent(post.campaign)}`}
+                    className="rounded-full bg-primary px-3 py-1 text-sm text-primary-foreground hover:bg-primary/90"
+                  >
+                    {post.campaign}
+                  </Link>
+                )}
+                {post.tags.map(tag => (
+                  <Link
+                    key={tag}
+                    href={`/journal?tag=${tag}`}
+                    className="rounded-full bg-muted px-3 py-1 text-sm text-card-foreground hover:bg-accent"
+                  >
+                    #{tag}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </article>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { FEED_DESCRIPTION } from '@/lib/journal/feeds'
+import { filterPosts, formatPostDate, getAllPosts, postFacets } from '@/lib/journal/posts'
+import { pageMetadata } from '@/lib/metadata'
+
+export const metadata: Metadata = {
+  ...pageMetadata({ title: 'Journal', description: FEED_DESCRIPTION, path: '/journal' }),
+  alternates: {
+    canonical: '/journal',
+    types: {
+      'application/rss+xml': '/feed.xml',
+      'application/atom+xml': '/atom.xml',
+    },
+  },
+}
+
+type Props = { searchParams: Promise<{ tag?: string | string[]; campaign?: string | string[] }> }
+
+function single(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+function filterHref(filter: { tag?: string; campaign?: string }): string {
+  const params = new URLSearchParams()
+  if (filter.tag) params.set('tag', filter.tag)
+  if (filter.campaign) params.set('campaign', filter.campaign)
+  const query = params.toString()
+  return query ? `/journal?${query}` : '/journal'
+}
+
+const chipClass = (active: boolean) =>
+  `rounded-full px-3 py-1 text-sm transition-colors ${
+    active ? 'bg-primary text-primary-foreground' : 'bg-muted text-card-foreground hover:bg-accent'
+  }`
+
+export default async function JournalPage({ searchParams }: Props) {
+  const params = await searchParams
+  const tag = single(params.tag)
+  const campaign = single(params.campaign)
+
+  const allPosts = await getAllPosts()
+  const { tags, campaigns } = postFacets(allPosts)
+  const posts = filterPosts(allPosts, { tag, campaign })
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="journal-page">
+      <div className="max-w-3xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+          <span className="flex gap-3 text-sm">
+            <a href="/feed.xml" className="text-link hover:text-link/80">RSS</a>
+            <a href="/atom.xml" className="text-link hover:text-link/80">Atom</a>
+          </span>
+        </div>
+
+        <section aria-labelledby="journal-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6">
+            <h1 id="journal-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              Journal
+            </h1>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            {(campaigns.length > 0 || tags.length > 0) && (
+              <nav aria-label="Filter posts" className="flex flex-col gap-3">
+                {campaigns.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground mr-1">Campaign</span>
+                    <Link href={filterHref({ tag })} className={chipClass(!campaign)}>All</Link>
+                    {campaigns.map(c => (
+                      <Link key={c} href={filterHref({ tag, campaign: c })} className={chipClass(c === campaign)}>
+                        {c}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground mr-1">Tag</span>
+                    <Link href={filterHref({ campaign })} className={chipClass(!tag)}>All</Link>
+                    {tags.map(t => (
+                      <Link key={t} href={filterHref({ campaign, tag: t })} className={chipClass(t === tag)}>
+                        #{t}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </nav>
+            )}
+
+            {allPosts.length === 0 ? (
+              <p className="text-muted-foreground text-center" data-testid="journal-empty">
+                Nothing here yet — the first recaps and announcements are on their way.
+              </p>
+            ) : posts.length === 0 ? (
+              <p className="text-muted-foreground text-center">No posts match that filter yet.</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {posts.map(post => (
+                  <li key={post.slug} className="py-5">
+                    <Link href={`/journal/${post.slug}`} className="group flex flex-col gap-1">
+                      <span className="text-xl font-display font-bold text-foreground group-hover:text-link">
+                        {post.title}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {formatPostDate(post.date)} · {post.author}
+                        {post.campaign && <> · {post.campaign}</>}
+                      </span>
+                      {post.summary && <span className="text-card-foreground">{post.summary}</span>}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
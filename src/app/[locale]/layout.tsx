@@ -0,0 +1,116 @@
+import type { Metadata } from "next";
+import { Inter } from "next/font/google";
+import { cookies } from "next/headers";
+import { connection } from "next/server";
+import { JsonLd } from "@/components/JsonLd";
+import { DISMISSED_COOKIE, getActiveAnnouncements, parseDismissed } from "@/lib/announcements";
+import { getCspNonce } from "@/lib/csp/nonce";
+import { languageAlternates, LOCALES, localePath } from "@/lib/i18n/locales";
+import { getMessages } from "@/lib/i18n/messages";
+import { getLocale, type LocaleParams } from "@/lib/i18n/server";
+import { ogImageUrl, ogLocale } from "@/lib/metadata";
+import { SITE_NAME, SITE_URL } from "@/lib/site";
+import { organizationJsonLd } from "@/lib/structured-data";
+import { parseThemePreference, serverThemeClass, THEME_COOKIE, themeScript } from "@/lib/theme";
+import { Analytics } from "./Analytics";
+import { AnnouncementBanner } from "./AnnouncementBanner";
+import { ThemeProvider } from "./ThemeProvider";
+import { ThemeToggle } from "./ThemeToggle";
+import "./globals.css";
+
+const inter = Inter({ subsets: ["latin"] });
+
+// Site-wide defaults, in the request's language (see src/lib/i18n). Pages
+// override these through pageMetadata() in src/lib/metadata.ts, which also
+// points their OG card at /og. The canonical URL and hreflang alternates
+// here are the homepage's.
+export async function generateMetadata({ params }: { params: LocaleParams }): Promise<Metadata> {
+  const locale = await getLocale(params);
+  const { title, description, tagline } = getMessages(locale).metadata;
+  const home = localePath(locale, "/");
+  return {
+    metadataBase: new URL(SITE_URL),
+    title,
+    description,
+    alternates: {
+      canonical: home,
+      languages: languageAlternates("/"),
+      types: {
+        "application/rss+xml": "/feed.xml",
+        "application/atom+xml": "/atom.xml",
+      },
+    },
+    openGraph: {
+      type: "website",
+      siteName: SITE_NAME,
+      title: SITE_NAME,
+      description,
+      url: home,
+      locale: ogLocale(locale),
+      images: [{ url: ogImageUrl(SITE_NAME, tagline), width: 1200, height: 630, alt: SITE_NAME }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: SITE_NAME,
+      description,
+      images: [ogImageUrl(SITE_NAME, tagline)],
+    },
+  };
+}
+
+// Prerendered pages need their locale known at build time.
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: LocaleParams;
+}) {
+  // Pages render per request by default: Next can only stamp the CSP nonce
+  // from src/proxy.ts onto its scripts when the HTML is generated per
+  // request. The cost is no full-route cache — every view runs the page,
+  // though upstream data is still fetch-cached. Pages that are the same for
+  // everyone opt out with `dynamic = 'force-static'`, which turns this and
+  // the cookie reads below into no-ops; src/proxy.ts must list them too
+  // (lib/csp/policy STATIC_PATHS), since they can't carry a nonce.
+  await connection();
+
+  const locale = await getLocale(params);
+  const cookieStore = await cookies();
+  const dismissed = parseDismissed(cookieStore.get(DISMISSED_COOKIE)?.value);
+  const announcements = (await getActiveAnnouncements(locale)).filter(
+    (a) => !a.dismissible || !dismissed.has(a.id),
+  );
+
+  // An explicit theme choice is rendered server-side; "system" is left to
+  // the inline script, which runs before paint. suppressHydrationWarning
+  // covers the class and color-scheme that script adds.
+  const themePreference = parseThemePreference(cookieStore.get(THEME_COOKIE)?.value);
+  const themeClass = serverThemeClass(themePreference);
+
+  return (
+    <html
+      lang={locale}
+      className={themeClass}
+      style={themeClass ? { colorScheme: themeClass } : undefined}
+      suppressHydrationWarning
+    >
+      <head>
+        <script nonce={await getCspNonce()} dangerouslySetInnerHTML={{ __html: themeScript() }} />
+      </head>
+      <body className={`${inter.className} min-h-screen antialiased`} suppressHydrationWarning>
+        <ThemeProvider initialPreference={themePreference}>
+          <JsonLd data={organizationJsonLd} />
+          <AnnouncementBanner announcements={announcements} locale={locale} />
+          {children}
+          <ThemeToggle locale={locale} />
+        </ThemeProvider>
+        <Analytics />
+      </body>
+    </html>
+  );
+}
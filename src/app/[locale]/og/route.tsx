@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server'
+import { renderOgImage } from '@/lib/og'
+import { SITE_NAME, SITE_TAGLINE } from '@/lib/site'
+
+// Query params are attacker-controlled text rendered into an image;
+// clamp them so nobody can make us rasterize a novel.
+const MAX_TITLE = 80
+const MAX_SUBTITLE = 160
+
+// Generic OG card: /og?title=…&subtitle=…&eyebrow=…. pageMetadata() points
+// every page here, so new pages get a branded card without their own
+// opengraph-image file.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const image = await renderOgImage({
+    title: (params.get('title') ?? SITE_NAME).slice(0, MAX_TITLE),
+    subtitle: (params.get('subtitle') ?? SITE_TAGLINE).slice(0, MAX_SUBTITLE),
+    eyebrow: params.get('eyebrow')?.slice(0, 40) || undefined,
+  })
+  image.headers.set('Cache-Control', 'public, max-age=86400, s-maxage=604800, immutable')
+  return image
+}
@@ -0,0 +1,335 @@
+import Image from 'next/image'
+import { Card } from '@/components/Card'
+import { BadgeLink, ContentImageTag, CtaButton, TextLink } from '@/components/ContentLinks'
+import { DiscordIcon, Icon } from '@/components/icons'
+import { JsonLd } from '@/components/JsonLd'
+import { LocaleLink } from '@/components/LocaleLink'
+import { NextStepCta } from '@/components/OnboardingSteps'
+import { getCurrentAccount } from '@/lib/account'
+import { displayUser } from '@/lib/auth/discord'
+import { HOME_CONTENT } from '@/lib/content/home'
+import { getDiscordInviteStats } from '@/lib/discord/invite'
+import { RESESH_PERMISSIONS, RESESH_PERMISSIONS_ADDED, type ReseshPermission } from '@/lib/discord/resesh'
+import { type FeatureFlag, getFeatureFlags } from '@/lib/flags'
+import { formatList, formatNumber } from '@/lib/i18n/format'
+import { formatMessage, getMessages } from '@/lib/i18n/messages'
+import { getLocale, type LocaleParams } from '@/lib/i18n/server'
+import { getRates } from '@/lib/rates'
+import { serializeOccurrence, upcomingSessions } from '@/lib/schedule/schedule'
+import { SERVER_KINDS } from '@/lib/servers'
+import { coreJsonLd, reseshJsonLd } from '@/lib/structured-data'
+import { CoreStatusButton } from './CoreStatusButton'
+import { DiceRoller } from './DiceRoller'
+import { EconomyCalculator } from './EconomyCalculator'
+import { LocaleSwitcher } from './LocaleSwitcher'
+import { SessionList } from './SessionList'
+import { WaitlistForm } from './WaitlistForm'
+
+// Copy, links and images come from content/home/<locale>.json (validated
+// by src/lib/content/home.ts), the few strings around live data from the
+// message catalogs (src/lib/i18n); this file is layout and live data only.
+
+const TEXT_LINK_CLASS = 'text-link hover:text-link/80 font-semibold'
+const FOOTER_LINK_CLASS = 'text-xs text-primary-foreground/70 hover:text-primary-foreground transition-colors'
+
+export default async function HomePage({ params }: { params: LocaleParams }) {
+  // Stats and flags are fetch-cached, so per-request rendering (needed for
+  // the CSP nonce) doesn't mean per-request upstream calls. Stats are null
+  // when Discord is unreachable — the card then renders exactly as it did
+  // before counts existed. The account lookup only runs for signed-in
+  // visitors. Metered rates are fetch-cached the same way and come back
+  // empty while Core is unreachable.
+  const [discordStats, flags, account, rates, locale] = await Promise.all([
+    getDiscordInviteStats(),
+    getFeatureFlags(),
+    getCurrentAccount(),
+    getRates(),
+    getLocale(params),
+  ])
+  const content = HOME_CONTENT[locale]
+  const t = getMessages(locale).home
+  const install = getMessages(locale).reseshInstall
+  const onboarding = getMessages(locale).onboarding
+  const permissionList = (flags: readonly ReseshPermission[]) =>
+    formatList(flags.map(flag => install.flags[flag]), locale)
+  const sessions = upcomingSessions({ limit: 3 }).map(serializeOccurrence)
+  const enabled = (item?: { flag?: FeatureFlag }) => item !== undefined && (!item.flag || flags[item.flag])
+  const { hero, discord, resesh, core, economy, footer } = content
+
+  return (
+    <div className="min-h-screen relative overflow-hidden" data-testid="home-page">
+      <JsonLd data={[reseshJsonLd, coreJsonLd]} />
+      {/* Fixed-to-viewport background — content scrolls over a locked
+          dice image instead of stretching it to the full page height. The
+          overlay darkens it in the dark theme and washes it out in light. */}
+      <div className="fixed inset-0 bg-dice-hero bg-cover bg-center bg-no-repeat" />
+      <div className="fixed inset-0 bg-overlay/30" />
+
+      <div className="relative z-10 min-h-screen flex flex-col">
+        {/* Hero logo */}
+        <div className="flex-1 flex items-center justify-center py-20">
+          <div className="relative">
+            <Image
+              src={hero.logo.src}
+              alt={hero.logo.alt}
+              width={hero.logo.width}
+              height={hero.logo.height}
+              className="drop-shadow-2xl rounded-full"
+              priority
+              data-testid="home-logo"
+            />
+          </div>
+        </div>
+
+        {/* Hero title + tagline + welcome copy */}
+        <Card heading={hero.title} headingLevel={1} size="hero" className="max-w-4xl mx-auto w-full px-4 pb-12">
+          <p className="text-xl text-muted-foreground text-center italic mb-8">{hero.tagline}</p>
+          <div className="text-card-foreground leading-relaxed flex flex-col gap-4">
+            {hero.intro.map((paragraph, i) => (
+              <p key={i}>{paragraph}</p>
+            ))}
+          </div>
+        </Card>
+
+        {/* Signed-in visitors get their next setup step up front. */}
+        {account && (
+          <Card
+            landmark
+            heading={`${content.account.heading}, ${displayUser(account.session.user).name}`}
+            headingId="account-heading"
+            className="max-w-4xl mx-auto w-full px-4 pb-12"
+            bodyClassName="flex flex-col items-center gap-4 text-center"
+          >
+            <p className="text-card-foreground">{onboarding.steps[account.overview.nextStep.id].description}</p>
+            <NextStepCta overview={account.overview} locale={locale} size="md" />
+            <TextLink link={content.account.link} className={TEXT_LINK_CLASS} />
+          </Card>
+        )}
+
+        {/* ── Discord ──────────────────────────────────────────────────
+            Comes before Core because Discord membership is the gate to
+            Core access — visitors should join here first, then enter Core,
+            then optionally add ReSesh. Same natural setup flow they'd
+            take anyway. */}
+        <Card
+          landmark
+          heading={discord.heading}
+          headingId="discord-heading"
+          size="feature"
+          tone="discord"
+          icon={<DiscordIcon className="w-10 h-10 text-white" />}
+          subheading={
+            discordStats && (
+              <p className="flex items-center gap-3 text-sm text-white/90" data-testid="discord-stats">
+                <span className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-green-400" aria-hidden />
+                  {formatMessage(t.discordOnline, { count: formatNumber(discordStats.onlineCount, locale) })}
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-white/60" aria-hidden />
+                  {formatMessage(t.discordMembers, { count: formatNumber(discordStats.memberCount, locale) })}
+                </span>
+              </p>
+            )
+          }
+          className="max-w-4xl mx-auto w-full px-4 pb-12"
+        >
+          <p className="text-lg text-card-foreground text-center mb-4">{discord.lead}</p>
+          <p className="text-card-foreground max-w-2xl mx-auto text-center mb-8 leading-relaxed">{discord.body}</p>
+          <div className="text-center">
+            <a
+              href={discord.cta.href}
+              data-testid={discord.cta.testId}
+              {...(discord.cta.newTab && { target: '_blank', rel: 'noopener noreferrer' })}
+              className="inline-flex items-center justify-center rounded-xl bg-discord hover:bg-discord-dark px-10 py-4 transition-colors"
+            >
+              <span className="text-xl md:text-2xl font-display font-bold text-white">{discord.cta.label}</span>
+            </a>
+          </div>
+        </Card>
+
+        {/* Upcoming sessions — the next few game nights from the typed
+            schedule; /schedule has the full list and the calendar feed. */}
+        <Card
+          landmark
+          heading={content.sessions.heading}
+          headingId="sessions-heading"
+          className="max-w-4xl mx-auto w-full px-4 pb-12"
+          bodyClassName="flex flex-col gap-4"
+        >
+          <SessionList sessions={sessions} locale={locale} />
+          <div className="text-center">
+            <TextLink link={content.sessions.link} className={TEXT_LINK_CLASS} />
+          </div>
+        </Card>
+
+        {/* ── Core + ReSesh ───────────────────────────────────────────
+            Paired in a 2-up grid on desktop. Stacks on mobile. Both cards
+            stretch to equal height so their CTAs and trailing badges
+            align across the row. */}
+        <div className="max-w-5xl mx-auto w-full px-4 pb-12">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card
+              landmark
+              stretch
+              heading={resesh.heading}
+              headingId="resesh-heading"
+              size="product"
+              icon={<ContentImageTag image={resesh.icon} className="rounded-lg shrink-0" />}
+            >
+              <p className="text-lg text-card-foreground text-center mb-6">{resesh.lead}</p>
+              <p className="text-card-foreground text-center mb-6 leading-relaxed flex-1">{resesh.body}</p>
+
+              {enabled(resesh.badge) && (
+                <div className="flex justify-center">
+                  <BadgeLink badge={resesh.badge!} />
+                </div>
+              )}
+
+              {enabled(resesh.demoLink) && (
+                <div className="text-center mt-4">
+                  <TextLink link={resesh.demoLink!} className={TEXT_LINK_CLASS} />
+                </div>
+              )}
+
+              {/* Says what the bot will ask Discord for, and which permissions
+                  servers on the old install link are missing. */}
+              {enabled(resesh.cta) && (
+                <div className="text-center mt-6">
+                  <CtaButton link={resesh.cta!} />
+                  <p className="text-xs text-muted-foreground mt-3" data-testid="resesh-permissions">
+                    {formatMessage(install.permissions, { permissions: permissionList(RESESH_PERMISSIONS) })}
+                    {RESESH_PERMISSIONS_ADDED.length > 0 &&
+                      ` ${formatMessage(install.added, { added: permissionList(RESESH_PERMISSIONS_ADDED) })}`}
+                  </p>
+                </div>
+              )}
+            </Card>
+
+            <Card landmark stretch heading={core.heading} headingId="core-heading" size="product">
+              <p className="text-lg text-card-foreground text-center mb-6">{core.lead}</p>
+              <p className="text-card-foreground text-center mb-6 leading-relaxed flex-1">{core.body}</p>
+
+              {/* Hostable game-server kinds, rendered from the server
+                  catalog (src/lib/servers.ts) — add kinds there, not here.
+                  `flex-1` pushes the CTA cluster to the bottom so it lines
+                  up with ReSesh's CTA. */}
+              <div className="flex flex-col items-center gap-3 mb-6 flex-1">
+                <ul className="flex items-center justify-center gap-6">
+                  {SERVER_KINDS.map(kind => (
+                    <li key={kind.slug} className="flex flex-col items-center gap-1">
+                      <LocaleLink
+                        locale={locale}
+                        href={`/servers/${kind.slug}`}
+                        className="rounded-lg transition-opacity hover:opacity-80"
+                        title={kind.tagline}
+                      >
+                        <Image src={kind.icon} alt={kind.name} width={48} height={48} className="rounded-lg bg-accent p-1" />
+                      </LocaleLink>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {enabled(core.affiliateBadge) && (
+                <div className="flex justify-center">
+                  <BadgeLink badge={core.affiliateBadge!} />
+                </div>
+              )}
+
+              {flags.coreStatusButton && (
+                <div className="text-center mt-6">
+                  <CoreStatusButton locale={locale} />
+                </div>
+              )}
+
+              {/* Relaunch waitlist — double opt-in, see src/lib/waitlist. */}
+              <div className="mt-6">
+                <WaitlistForm locale={locale} />
+              </div>
+            </Card>
+          </div>
+        </div>
+
+        {/* ── Economy (CT / CC / SC) ─────────────────────────────────
+            Three currencies, three CTAs, one row. ReSesh + Core both
+            spend Compute Tokens, which come from either a subscription
+            grant or a Crit-Coin top-up. Story Credit is the
+            creator-earnings side: tips, asset-pack sales, etc. —
+            convertible to CC, cashable to USD via Stripe Connect
+            (Premium+ tier). No technical explainer text by design —
+            interested users ask in Discord. */}
+        <section className="max-w-5xl mx-auto w-full px-4 pb-12" aria-labelledby="economy-heading">
+          <h2 id="economy-heading" className="sr-only">{economy.heading}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {economy.cards.map(card => (
+              <Card
+                key={card.heading}
+                stretch
+                heading={card.heading}
+                headingLevel={3}
+                size="tile"
+                icon={
+                  typeof card.icon === 'string' ? (
+                    <Icon name={card.icon} className="w-9 h-9 shrink-0" />
+                  ) : (
+                    <ContentImageTag image={card.icon} className="shrink-0" />
+                  )
+                }
+              >
+                <p className="text-card-foreground leading-relaxed mb-6 flex-1">{card.body}</p>
+                {enabled(card.cta) && <CtaButton link={card.cta!} size="md" />}
+              </Card>
+            ))}
+          </div>
+        </section>
+
+        {/* Dice — client-side roller; results link to seeded /roll
+            permalinks that unfurl with their own OG card. */}
+        <Card landmark heading={content.dice.heading} headingId="dice-heading" className="max-w-4xl mx-auto w-full px-4 pb-12">
+          <DiceRoller locale={locale} />
+        </Card>
+
+        {/* Calculator — reads the same rates as the copy above. */}
+        <Card
+          landmark
+          heading={content.calculator.heading}
+          headingId="calculator-heading"
+          className="max-w-5xl mx-auto w-full px-4 pb-12"
+        >
+          <EconomyCalculator rates={rates} locale={locale} />
+        </Card>
+
+        {/* Footer */}
+        <footer className="w-full bg-primary text-primary-foreground py-6 px-8">
+          <div className="max-w-7xl mx-auto flex flex-col sm:flex-row items-center justify-between gap-4">
+            <div className="flex items-center gap-5">
+              {footer.social.map(link => (
+                <a
+                  key={link.href}
+                  href={link.href}
+                  data-testid={link.testId}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary-foreground hover:text-primary-foreground/80 transition-colors"
+                  aria-label={link.label}
+                >
+                  <Icon name={link.icon} className="w-7 h-7" />
+                </a>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-5">
+              {footer.links.filter(enabled).map(link => (
+                <TextLink key={link.href} link={link} className={FOOTER_LINK_CLASS} />
+              ))}
+              <p className="text-xs text-primary-foreground/70">{footer.copyright}</p>
+            </div>
+
+            <LocaleSwitcher locale={locale} path="/" className="text-primary-foreground" />
+          </div>
+        </footer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import type { Metadata } from 'next'
+import { LocaleLink } from '@/components/LocaleLink'
+import { formatAmount } from '@/lib/economy'
+import { formatDate, formatNumber } from '@/lib/i18n/format'
+import type { Locale } from '@/lib/i18n/locales'
+import { formatMessage, getMessages, type Messages } from '@/lib/i18n/messages'
+import { getLocale, type LocaleParams } from '@/lib/i18n/server'
+import { pageMetadata } from '@/lib/metadata'
+import { getPricing, type PricingTier } from '@/lib/pricing'
+import { CORE_APP_URL, CORE_CHECKOUT_URL } from '@/lib/site'
+import { LocaleSwitcher } from '../LocaleSwitcher'
+
+// Tier names and taglines come from Core in English; everything around
+// them is translated. Without Core there are no prices to show, and the page
+// says so (see lib/pricing).
+//
+// The same for every visitor, so prerendered per locale and regenerated as
+// the pricing fetch revalidates, instead of rendered per request for a CSP
+// nonce (see the root layout).
+export const dynamic = 'force-static'
+// PRICING_REVALIDATE_S, spelled out here so a build that couldn't reach
+// Core still retries instead of keeping "unavailable" until the next deploy.
+export const revalidate = 3600
+
+type Props = { params: LocaleParams }
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = await getLocale(params)
+  const t = getMessages(locale).pricing
+  return pageMetadata({ title: t.title, description: t.description, path: '/pricing', locale })
+}
+
+type PricingMessages = Messages['pricing']
+
+function price(tier: PricingTier, t: PricingMessages, locale: Locale): string {
+  if (tier.monthlyPriceUsd === 0) return t.free
+  return formatMessage(t.perMonth, { price: formatAmount(tier.monthlyPriceUsd, 'USD', locale) })
+}
+
+const COMPARISON: {
+  key: keyof PricingMessages['rows']
+  value: (tier: PricingTier, t: PricingMessages, locale: Locale) => string
+}[] = [
+  { key: 'price', value: price },
+  { key: 'monthlyCt', value: (tier, _, locale) => formatAmount(tier.monthlyCt, 'CT', locale) },
+  {
+    key: 'reseshSession',
+    value: (tier, t, locale) =>
+      tier.limits.reseshSessionHours === null
+        ? t.unlimited
+        : formatMessage(t.hours, { hours: formatNumber(tier.limits.reseshSessionHours, locale) }),
+  },
+  { key: 'servers', value: (tier, _, locale) => formatNumber(tier.limits.concurrentServers, locale) },
+  { key: 'stripeConnect', value: tier => (tier.stripeConnect ? '✓' : '—') },
+]
+
+function asOfDate(asOf: string, locale: Locale): string {
+  return formatDate(new Date(asOf), locale, { timeZone: 'UTC', year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+function TierCta({ tier, t }: { tier: PricingTier; t: PricingMessages }) {
+  const free = tier.monthlyPriceUsd === 0
+  return (
+    <a
+      href={free ? CORE_APP_URL : `${CORE_CHECKOUT_URL}?plan=${encodeURIComponent(tier.id)}`}
+      data-testid={free ? 'core-enter-cta' : 'pricing-subscribe-cta'}
+      data-plan={tier.id}
+      className={`inline-flex w-full items-center justify-center rounded-xl px-4 py-2 font-display font-bold transition-colors ${
+        tier.featured
+          ? 'bg-primary hover:bg-primary/90 border-2 border-ring text-primary-foreground'
+          : 'bg-muted hover:bg-accent border-2 border-border text-card-foreground'
+      }`}
+    >
+      {free ? t.startFree : formatMessage(t.subscribe, { plan: tier.name })}
+    </a>
+  )
+}
+
+export default async function PricingPage({ params }: Props) {
+  const [pricing, locale] = await Promise.all([getPricing(), getLocale(params)])
+  const { common, pricing: t } = getMessages(locale)
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="pricing-page">
+      <div className="max-w-4xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div className="flex items-center justify-between gap-4">
+          <LocaleLink locale={locale} href="/" className="text-sm text-link hover:text-link/80">
+            {common.backHome}
+          </LocaleLink>
+          <LocaleSwitcher locale={locale} path="/pricing" className="text-muted-foreground" />
+        </div>
+
+        <section aria-labelledby="pricing-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6">
+            <h1 id="pricing-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              {t.title}
+            </h1>
+            <p className="text-primary-foreground/80 text-center mt-2">{t.lead}</p>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            {pricing ? (
+              <>
+                <ul className="grid grid-cols-[repeat(auto-fit,minmax(12rem,1fr))] gap-4" data-testid="pricing-tiers">
+                  {pricing.tiers.map(tier => (
+                    <li
+                      key={tier.id}
+                      className={`flex flex-col gap-3 rounded-lg border-2 px-5 py-5 ${tier.featured ? 'border-ring' : 'border-border'}`}
+                    >
+                      <div className="flex items-baseline justify-between gap-2">
+                        <h2 className="text-xl font-display font-bold text-card-foreground">{tier.name}</h2>
+                        {tier.featured && <span className="text-xs uppercase tracking-wide text-link">{t.featured}</span>}
+                      </div>
+                      <p className="text-2xl font-bold text-foreground">{price(tier, t, locale)}</p>
+                      {tier.tagline && <p className="text-sm text-muted-foreground flex-1">{tier.tagline}</p>}
+                      <TierCta tier={tier} t={t} />
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-card-foreground" data-testid="pricing-comparison">
+                    <caption className="sr-only">{t.comparison}</caption>
+                    <thead className="text-left">
+                      <tr>
+                        <th scope="col" className="py-2 pr-4 font-normal text-muted-foreground">
+                          <span className="sr-only">{t.feature}</span>
+                        </th>
+                        {pricing.tiers.map(tier => (
+                          <th key={tier.id} scope="col" className="py-2 pr-4 font-display font-bold text-center">
+                            {tier.name}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {COMPARISON.map(row => (
+                        <tr key={row.key}>
+                          <th scope="row" className="py-2 pr-4 font-normal text-left text-muted-foreground">
+                            {t.rows[row.key]}
+                          </th>
+                          {pricing.tiers.map(tier => (
+                            <td key={tier.id} className="py-2 pr-4 text-center">
+                              {row.value(tier, t, locale)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <p className="text-sm text-muted-foreground text-center" data-testid="pricing-as-of">
+                  {formatMessage(t.asOf, { date: asOfDate(pricing.asOf, locale) })}
+                </p>
+              </>
+            ) : (
+              <div className="flex flex-col items-center gap-4 text-center" data-testid="pricing-unavailable">
+                <p className="text-card-foreground">{t.unavailable}</p>
+                <a
+                  href={CORE_APP_URL}
+                  data-testid="core-enter-cta"
+                  className="inline-flex items-center justify-center rounded-xl bg-primary hover:bg-primary/90 border-2 border-ring px-6 py-2 font-display font-bold text-primary-foreground transition-colors"
+                >
+                  {t.openCore}
+                </a>
+              </div>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
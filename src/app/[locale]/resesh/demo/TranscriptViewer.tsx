@@ -0,0 +1,235 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { EXPORT_FORMATS, exportFilename, exportTranscript, type ExportFormat } from '@/lib/resesh/export'
+import { highlight, matchesAll, queryTerms } from '@/lib/resesh/search'
+import { formatTimestamp, parseTimestamp, segmentIndexAt, type Transcript } from '@/lib/resesh/transcript'
+
+// Speaker colours cycle through this list in speaker order, each with a
+// shade readable on the light and the dark card.
+const SPEAKER_COLORS = [
+  'text-link',
+  'text-sky-700 dark:text-sky-300',
+  'text-emerald-700 dark:text-emerald-300',
+  'text-amber-700 dark:text-amber-300',
+  'text-rose-700 dark:text-rose-300',
+]
+
+// Deep links use #t=<timestamp>, e.g. /resesh/demo#t=1:23.
+function timestampFromHash(hash: string): number | null {
+  const match = /^#t=(.+)$/.exec(hash)
+  return match ? parseTimestamp(decodeURIComponent(match[1])) : null
+}
+
+function download(filename: string, mimeType: string, contents: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function TranscriptViewer({ transcript }: { transcript: Transcript }) {
+  const { speakers, segments } = transcript
+  const [query, setQuery] = useState('')
+  const [hiddenSpeakers, setHiddenSpeakers] = useState<ReadonlySet<string>>(new Set())
+  const [jumpInput, setJumpInput] = useState('')
+  const [jumpError, setJumpError] = useState<string | null>(null)
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+
+  const speakerById = useMemo(
+    () => new Map(speakers.map((speaker, i) => [speaker.id, { ...speaker, color: SPEAKER_COLORS[i % SPEAKER_COLORS.length] }])),
+    [speakers],
+  )
+  const terms = useMemo(() => queryTerms(query), [query])
+
+  // Indexes into `segments`, so anchors and #t= links stay stable while filtering.
+  const speakerVisible = segments.flatMap((segment, i) => (hiddenSpeakers.has(segment.speakerId) ? [] : [i]))
+  const visible = terms.length > 0 ? speakerVisible.filter(i => matchesAll(segments[i].text, terms)) : speakerVisible
+
+  function jumpTo(ms: number) {
+    const index = segmentIndexAt(segments, ms)
+    // The target may be filtered out; clear filters rather than jump nowhere.
+    if (!visible.includes(index)) {
+      setQuery('')
+      setHiddenSpeakers(new Set())
+    }
+    setActiveIndex(index)
+    history.replaceState(null, '', `#t=${formatTimestamp(segments[index].startMs)}`)
+  }
+
+  useEffect(() => {
+    const fromHash = () => {
+      const ms = timestampFromHash(window.location.hash)
+      if (ms !== null) setActiveIndex(segmentIndexAt(segments, ms))
+    }
+    fromHash()
+    window.addEventListener('hashchange', fromHash)
+    return () => window.removeEventListener('hashchange', fromHash)
+  }, [segments])
+
+  useEffect(() => {
+    if (activeIndex === null) return
+    document.getElementById(`segment-${activeIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [activeIndex])
+
+  function toggleSpeaker(id: string) {
+    setHiddenSpeakers(current => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      // Hiding everyone is never what was meant; treat it as "show all".
+      return next.size === speakers.length ? new Set() : next
+    })
+  }
+
+  function exportAs(format: ExportFormat) {
+    const { mimeType } = EXPORT_FORMATS.find(f => f.format === format)!
+    const included = speakerVisible.map(i => segments[i])
+    download(exportFilename(transcript, format), mimeType, exportTranscript(format, transcript, included))
+  }
+
+  return (
+    <div className="flex flex-col gap-6" data-testid="transcript-viewer">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end">
+        <div className="flex-1 flex flex-col gap-1">
+          <label htmlFor="transcript-search" className="text-sm text-muted-foreground">
+            Search
+          </label>
+          <input
+            id="transcript-search"
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="lamp, stew, lullaby…"
+            autoComplete="off"
+            className="rounded-lg border-input bg-muted text-card-foreground focus:border-ring focus:ring-ring"
+          />
+        </div>
+        <form
+          className="flex flex-col gap-1"
+          onSubmit={e => {
+            e.preventDefault()
+            const ms = parseTimestamp(jumpInput)
+            if (ms === null) {
+              setJumpError('Use m:ss or h:mm:ss')
+              return
+            }
+            setJumpError(null)
+            jumpTo(ms)
+          }}
+        >
+          <label htmlFor="transcript-jump" className="text-sm text-muted-foreground">
+            Jump to
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="transcript-jump"
+              value={jumpInput}
+              onChange={e => setJumpInput(e.target.value)}
+              placeholder="1:30"
+              autoComplete="off"
+              className="w-24 rounded-lg border-input bg-muted font-mono text-card-foreground focus:border-ring focus:ring-ring"
+              aria-invalid={jumpError !== null}
+              aria-describedby={jumpError ? 'transcript-jump-error' : undefined}
+            />
+            <button
+              type="submit"
+              className="rounded-lg bg-primary hover:bg-primary/90 px-4 font-semibold text-primary-foreground transition-colors"
+            >
+              Go
+            </button>
+          </div>
+          {jumpError && (
+            <p id="transcript-jump-error" className="text-xs text-destructive">
+              {jumpError}
+            </p>
+          )}
+        </form>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Speakers">
+        {speakers.map(speaker => {
+          const shown = !hiddenSpeakers.has(speaker.id)
+          return (
+            <button
+              key={speaker.id}
+              type="button"
+              aria-pressed={shown}
+              onClick={() => toggleSpeaker(speaker.id)}
+              className={`rounded-full px-3 py-1 text-sm transition-colors ${
+                shown ? 'bg-accent text-foreground' : 'bg-muted text-muted-foreground line-through'
+              }`}
+            >
+              <span className={shown ? speakerById.get(speaker.id)?.color : undefined}>{speaker.name}</span>
+              {speaker.role === 'gm' && <span className="ml-1 text-xs text-muted-foreground">GM</span>}
+            </button>
+          )
+        })}
+        <span className="ml-auto text-sm text-muted-foreground" aria-live="polite">
+          {terms.length > 0
+            ? `${visible.length} matching ${visible.length === 1 ? 'line' : 'lines'}`
+            : `${visible.length} of ${segments.length} lines`}
+        </span>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">Nothing matches — try fewer words or more speakers.</p>
+      ) : (
+        <ol className="flex flex-col gap-1 max-h-[32rem] overflow-y-auto pr-2" data-testid="transcript-segments">
+          {visible.map(i => {
+            const segment = segments[i]
+            const speaker = speakerById.get(segment.speakerId)!
+            return (
+              <li
+                key={i}
+                id={`segment-${i}`}
+                className={`grid grid-cols-[4rem_1fr] gap-3 rounded-md px-2 py-2${
+                  i === activeIndex ? ' bg-accent ring-1 ring-ring' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => jumpTo(segment.startMs)}
+                  className="self-start font-mono text-sm text-muted-foreground hover:text-link text-left"
+                  aria-label={`Link to ${formatTimestamp(segment.startMs)}`}
+                >
+                  {formatTimestamp(segment.startMs)}
+                </button>
+                <p className="text-card-foreground leading-relaxed">
+                  <span className={`font-semibold ${speaker.color}`}>{speaker.name}: </span>
+                  {highlight(segment.text, terms).map((part, j) =>
+                    part.hit ? (
+                      <mark key={j} className="rounded-sm bg-amber-300 text-slate-900 px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      part.text
+                    ),
+                  )}
+                </p>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2 border-t border-border pt-6">
+        <span className="text-sm text-muted-foreground mr-1">
+          Export{hiddenSpeakers.size > 0 ? ' selected speakers' : ''}:
+        </span>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => exportAs(format)}
+            className="rounded-md bg-muted hover:bg-accent px-3 py-1 text-sm text-card-foreground transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
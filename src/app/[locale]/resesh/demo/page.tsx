@@ -0,0 +1,54 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { pageMetadata } from '@/lib/metadata'
+import { getDemoTranscript } from '@/lib/resesh/demo'
+import { formatTimestamp } from '@/lib/resesh/transcript'
+import { TranscriptViewer } from './TranscriptViewer'
+
+export const metadata: Metadata = pageMetadata({
+  title: 'ReSesh transcript demo',
+  description: 'See what ReSesh records: a searchable, speaker-labelled transcript of a sample Cypher session, exportable to SRT, WebVTT and Markdown.',
+  path: '/resesh/demo',
+  ogSubtitle: 'Searchable session transcripts',
+})
+
+export default async function ReseshDemoPage() {
+  const transcript = await getDemoTranscript()
+  const { session } = transcript
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="resesh-demo-page">
+      <div className="max-w-4xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        <section aria-labelledby="transcript-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6 flex flex-col items-center gap-2">
+            <p className="text-xs uppercase tracking-wider text-primary-foreground/70">ReSesh transcript · sample</p>
+            <h1 id="transcript-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              {session.title}
+            </h1>
+            <p className="text-sm text-primary-foreground/80 text-center">
+              {[session.campaign, session.system, session.channel, formatTimestamp(session.durationMs)]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+          <div className="bg-card rounded-b-lg px-4 md:px-8 py-8">
+            <TranscriptViewer transcript={transcript} />
+          </div>
+        </section>
+
+        <p className="text-center text-muted-foreground">
+          ReSesh records your Discord sessions and produces transcripts like this one.{' '}
+          <Link href="/#resesh-heading" className="text-link hover:text-link/80">
+            Add it to your server →
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
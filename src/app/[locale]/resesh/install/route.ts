@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { buildBotInstallUrl } from '@/lib/discord/oauth'
+import { RESESH_CLIENT_ID, RESESH_PERMISSIONS, RESESH_SCOPES } from '@/lib/discord/resesh'
+
+// Discord snowflakes are 17–20 digit integers. Anything else in ?guild_id is
+// dropped rather than forwarded to Discord.
+const SNOWFLAKE = /^\d{17,20}$/
+
+export function GET(request: NextRequest) {
+  const guildId = request.nextUrl.searchParams.get('guild_id')
+
+  const url = buildBotInstallUrl({
+    clientId: RESESH_CLIENT_ID,
+    scopes: RESESH_SCOPES,
+    permissions: RESESH_PERMISSIONS,
+    guildId: guildId && SNOWFLAKE.test(guildId) ? guildId : undefined,
+  })
+
+  return NextResponse.redirect(url, 307)
+}
@@ -0,0 +1,33 @@
+import type { NextRequest } from 'next/server'
+import { CYPHER_EFFECT_LABEL, describeRoll, evaluateRoll } from '@/lib/dice/roll'
+import { renderOgImage } from '@/lib/og'
+import { decodeExpression, tryParse, validSeed } from '../roll-params'
+
+type Context = { params: Promise<{ expression: string }> }
+
+// OG card for a roll permalink: the total as the headline, the dice
+// breakdown underneath, so the Discord unfurl shows the result itself.
+export async function GET(request: NextRequest, { params }: Context) {
+  const attempt = tryParse(decodeExpression((await params).expression))
+  const seed = validSeed(request.nextUrl.searchParams.get('seed'))
+
+  if ('error' in attempt || !seed) {
+    return renderOgImage({ title: 'Dice roller', subtitle: "If the GM doesn't kill you, the dice will." })
+  }
+
+  const result = evaluateRoll(attempt.parsed, seed)
+  const breakdown = describeRoll(result)
+  const image = await renderOgImage({
+    eyebrow: `Rolled ${result.notation}`,
+    title: String(result.total),
+    subtitle: [
+      result.cypherEffect && CYPHER_EFFECT_LABEL[result.cypherEffect],
+      breakdown.length > 120 ? `${breakdown.slice(0, 117)}…` : breakdown,
+    ]
+      .filter(Boolean)
+      .join(' · '),
+  })
+  // Same notation + seed always renders the same card.
+  image.headers.set('Cache-Control', 'public, max-age=31536000, immutable')
+  return image
+}
@@ -0,0 +1,101 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { randomSeed } from '@/lib/dice/random'
+import { CYPHER_EFFECT_LABEL, describeRoll, evaluateRoll, rollPermalink } from '@/lib/dice/roll'
+import { pageMetadata } from '@/lib/metadata'
+import { DiceRoller } from '../../DiceRoller'
+import { decodeExpression, tryParse, validSeed } from './roll-params'
+
+type Props = {
+  params: Promise<{ expression: string }>
+  searchParams: Promise<{ seed?: string | string[] }>
+}
+
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const expression = decodeExpression((await params).expression)
+  const seed = validSeed((await searchParams).seed)
+  const attempt = tryParse(expression)
+  if ('error' in attempt || !seed) {
+    return pageMetadata({ title: 'Dice roller', description: 'Roll dice with Crit Fumble Gaming.', path: '/' })
+  }
+
+  const result = evaluateRoll(attempt.parsed, seed)
+  const base = pageMetadata({
+    title: `${result.notation} → ${result.total}`,
+    description: describeRoll(result),
+    path: rollPermalink(result.notation, seed),
+  })
+  const image = `/roll/${encodeURIComponent(result.notation)}/og?seed=${seed}`
+  return {
+    ...base,
+    // Permalinks are for sharing, not search results.
+    robots: { index: false },
+    openGraph: { ...base.openGraph, images: [{ url: image, width: 1200, height: 630 }] },
+    twitter: { ...base.twitter, images: [image] },
+  }
+}
+
+export default async function RollPage({ params, searchParams }: Props) {
+  const expression = decodeExpression((await params).expression)
+  const seed = validSeed((await searchParams).seed)
+  const attempt = tryParse(expression)
+
+  // No seed yet: mint one so the URL in the address bar is the permalink.
+  if (!seed && 'parsed' in attempt) {
+    redirect(rollPermalink(attempt.parsed.notation, randomSeed()))
+  }
+
+  const result = 'parsed' in attempt && seed ? evaluateRoll(attempt.parsed, seed) : null
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="roll-page">
+      <div className="max-w-2xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        <section aria-labelledby="roll-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6">
+            <h1 id="roll-heading" className="text-3xl font-display font-bold text-primary-foreground text-center font-mono break-all">
+              {result ? result.notation : expression}
+            </h1>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-10 flex flex-col items-center gap-4">
+            {result ? (
+              <>
+                <p className="text-7xl font-display font-bold text-foreground" data-testid="roll-total">
+                  {result.total}
+                </p>
+                <p className="font-mono text-muted-foreground text-center break-all">{describeRoll(result)}</p>
+                {result.cypherEffect && (
+                  <p className="text-xl text-link font-semibold">
+                    {CYPHER_EFFECT_LABEL[result.cypherEffect]}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">Seed {result.seed} — this link always shows this roll.</p>
+              </>
+            ) : (
+              <p className="text-destructive text-center" role="alert">
+                {'error' in attempt ? attempt.error : 'This roll link is missing a valid seed.'}
+              </p>
+            )}
+          </div>
+        </section>
+
+        <section aria-labelledby="reroll-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-4">
+            <h2 id="reroll-heading" className="text-xl font-display font-bold text-primary-foreground text-center">
+              Roll your own
+            </h2>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8">
+            <DiceRoller />
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
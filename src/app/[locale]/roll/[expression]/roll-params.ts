@@ -0,0 +1,29 @@
+import { DiceSyntaxError, parseRoll, type ParsedRoll } from '@/lib/dice/parse'
+
+// Shared by the permalink page and its OG card so both parse the segment
+// the same way.
+
+// Seeds are ours (randomSeed) but the URL is user-editable; keep them short
+// and boring.
+const SEED_PATTERN = /^[a-z0-9]{1,32}$/i
+
+export function decodeExpression(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+export function validSeed(value: string | string[] | null | undefined): string | null {
+  return typeof value === 'string' && SEED_PATTERN.test(value) ? value : null
+}
+
+export function tryParse(expression: string): { parsed: ParsedRoll } | { error: string } {
+  try {
+    return { parsed: parseRoll(expression) }
+  } catch (err) {
+    if (err instanceof DiceSyntaxError) return { error: err.message }
+    throw err
+  }
+}
@@ -0,0 +1,63 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { pageMetadata } from '@/lib/metadata'
+import { serializeOccurrence, upcomingSessions } from '@/lib/schedule/schedule'
+import { absoluteUrl } from '@/lib/site'
+import { SessionList } from '../SessionList'
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Game-night schedule',
+  description: 'Upcoming Crit Fumble Gaming sessions on Discord, in your time zone. Subscribe from any calendar app.',
+  path: '/schedule',
+})
+
+const SCHEDULE_DAYS = 60
+
+export default function SchedulePage() {
+  const sessions = upcomingSessions({ days: SCHEDULE_DAYS }).map(serializeOccurrence)
+  const feedUrl = absoluteUrl('/schedule.ics')
+  const webcalUrl = feedUrl.replace(/^https?:/, 'webcal:')
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="schedule-page">
+      <div className="max-w-3xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        <section aria-labelledby="schedule-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6">
+            <h1 id="schedule-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              Game nights
+            </h1>
+            <p className="text-primary-foreground/80 text-center mt-2">The next {SCHEDULE_DAYS} days of sessions on our Discord.</p>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            <SessionList sessions={sessions} showDescriptions showTimeZoneNote />
+
+            <div className="flex flex-col items-center gap-3 border-t border-border pt-6">
+              <p className="text-card-foreground text-center">Add every session to your calendar — it updates as we schedule more.</p>
+              <div className="flex flex-wrap justify-center gap-3">
+                <a
+                  href={webcalUrl}
+                  className="rounded-lg bg-primary hover:bg-primary/90 px-5 py-2 font-semibold text-primary-foreground transition-colors"
+                >
+                  Subscribe
+                </a>
+                <a
+                  href="/schedule.ics"
+                  className="rounded-lg bg-muted hover:bg-accent px-5 py-2 font-semibold text-card-foreground transition-colors"
+                >
+                  Download .ics
+                </a>
+              </div>
+              <p className="text-xs text-muted-foreground break-all">{feedUrl}</p>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
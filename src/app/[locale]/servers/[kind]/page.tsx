@@ -0,0 +1,119 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { ctToCc, formatAmount } from '@/lib/economy'
+import { pageMetadata } from '@/lib/metadata'
+import { getRates } from '@/lib/rates'
+import { AVAILABILITY_LABEL, getServerKind, SERVER_KINDS } from '@/lib/servers'
+
+// Every kind is known at build time; anything else is a 404 rather than an
+// on-demand render. Cost and versions come from Core (lib/rates) and are
+// re-read hourly; they say so rather than guess while Core is unreachable.
+// Prerendered rather than rendered per request for a CSP nonce (see the
+// root layout). English only: src/proxy.ts sends /es/servers/… and
+// /pt/servers/… to the English page, so their prerenders go unused.
+export const dynamic = 'force-static'
+// RATES_REVALIDATE_S, spelled out so a build that couldn't reach Core
+// still picks the rates up within the hour.
+export const revalidate = 3600
+export const dynamicParams = false
+
+type Props = { params: Promise<{ kind: string }> }
+
+export function generateStaticParams() {
+  return SERVER_KINDS.map(kind => ({ kind: kind.slug }))
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const kind = getServerKind((await params).kind)
+  if (!kind) return {}
+  return pageMetadata({
+    title: `${kind.name} hosting`,
+    description: kind.tagline,
+    path: `/servers/${kind.slug}`,
+  })
+}
+
+export default async function ServerKindPage({ params }: Props) {
+  const kind = getServerKind((await params).kind)
+  if (!kind) notFound()
+  const rate = (await getRates()).servers[kind.slug]
+
+  return (
+    <div className="min-h-screen bg-background" data-testid={`server-kind-${kind.slug}`}>
+      <div className="max-w-3xl mx-auto w-full px-4 py-12 flex flex-col gap-8">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        <section aria-labelledby="server-kind-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6 flex items-center justify-center gap-4">
+            <Image
+              src={kind.icon}
+              alt=""
+              width={56}
+              height={56}
+              className="rounded-lg bg-accent p-1 shrink-0"
+            />
+            <h1 id="server-kind-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              {kind.name}
+            </h1>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-10">
+            <p className="text-lg text-card-foreground text-center mb-6">{kind.tagline}</p>
+            <p className="text-card-foreground leading-relaxed mb-8">{kind.description}</p>
+
+            <dl className="grid grid-cols-1 sm:grid-cols-3 gap-6 text-center">
+              <div>
+                <dt className="text-sm text-muted-foreground">Availability</dt>
+                <dd className="text-lg font-display font-semibold text-foreground">
+                  {AVAILABILITY_LABEL[kind.availability]}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-muted-foreground">Cost while running</dt>
+                {rate ? (
+                  <>
+                    <dd className="text-lg font-display font-semibold text-foreground">
+                      {formatAmount(rate.ctPerHour, 'CT')}/hr
+                    </dd>
+                    <dd className="text-xs text-muted-foreground">
+                      ≈ {formatAmount(ctToCc(rate.ctPerHour), 'CC')}/hr
+                    </dd>
+                  </>
+                ) : (
+                  <dd className="text-sm text-muted-foreground">Unavailable right now</dd>
+                )}
+              </div>
+              <div>
+                <dt className="text-sm text-muted-foreground">Versions</dt>
+                {rate ? (
+                  <dd className="text-lg font-display font-semibold text-foreground">{rate.versions.join(', ')}</dd>
+                ) : (
+                  <dd className="text-sm text-muted-foreground">Unavailable right now</dd>
+                )}
+              </div>
+            </dl>
+
+            {kind.homepage && (
+              <p className="text-sm text-muted-foreground text-center mt-8">
+                Learn more about {kind.name} at{' '}
+                <a
+                  href={kind.homepage}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-link hover:text-link/80 underline"
+                >
+                  {new URL(kind.homepage).hostname}
+                </a>
+              </p>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
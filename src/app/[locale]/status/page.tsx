@@ -0,0 +1,197 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { getHealthHistoryStore, HISTORY_RETENTION_DAYS } from '@/lib/health/history'
+import { getHealthReport } from '@/lib/health/probe'
+import { SERVICES } from '@/lib/health/services'
+import type { ServiceStatus } from '@/lib/health/types'
+import { dailyUptime, deriveIncidents, overallUptime, type UptimeDay } from '@/lib/health/uptime'
+import { pageMetadata } from '@/lib/metadata'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Service status',
+  description: 'Live status, uptime and incident history for CFG Core, ReSesh and hosted game servers.',
+  path: '/status',
+})
+
+const STATUS_LABEL: Record<ServiceStatus, string> = {
+  online: 'Operational',
+  degraded: 'Degraded',
+  offline: 'Offline',
+}
+
+const STATUS_DOT: Record<ServiceStatus, string> = {
+  online: 'bg-green-500',
+  degraded: 'bg-yellow-400',
+  offline: 'bg-red-500',
+}
+
+const SERVICE_NAMES = new Map(SERVICES.map(s => [s.id, s.name]))
+
+function dayBarClass(day: UptimeDay): string {
+  if (day.uptime === null) return 'bg-accent'
+  if (day.uptime >= 0.99 && day.worst === 'online') return 'bg-green-500'
+  if (day.uptime >= 0.9) return 'bg-yellow-400'
+  return 'bg-red-500'
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? 'No data' : `${(value * 100).toFixed(2)}%`
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  }) + ' UTC'
+}
+
+function HistoryUnavailable() {
+  return (
+    <p className="text-muted-foreground text-center" data-testid="status-history-unavailable">
+      History is unavailable right now. The live status above is current.
+    </p>
+  )
+}
+
+export default async function StatusPage() {
+  const since = new Date(Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const store = getHealthHistoryStore()
+  // The live report is what this page is for, so a history backend that's
+  // down or slow costs only the uptime bars and incident list.
+  const [report, history] = await Promise.all([
+    getHealthReport(),
+    store.read(since).catch(err => {
+      console.error('[status] failed to read probe history', err)
+      return null
+    }),
+  ])
+  const incidents = history ? deriveIncidents(history.changes) : []
+  // Memory history only covers this server instance since it started, so
+  // don't present it as a 90-day record.
+  const period = store.durable ? `in the last ${HISTORY_RETENTION_DAYS} days` : 'since the last restart'
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="status-page">
+      <div className="max-w-4xl mx-auto w-full px-4 py-12 flex flex-col gap-12">
+        <div>
+          <Link href="/" className="text-sm text-link hover:text-link/80">
+            ← Crit Fumble Gaming
+          </Link>
+        </div>
+
+        {/* Current state — one row per service, worst status in the header
+            so "is Core down?" is answered before any scrolling. */}
+        <section aria-labelledby="status-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-6 flex items-center justify-center gap-3">
+            <span className={`w-4 h-4 rounded-full ${STATUS_DOT[report.status]}`} aria-hidden />
+            <h1 id="status-heading" className="text-3xl md:text-4xl font-display font-bold text-primary-foreground text-center">
+              {report.status === 'online' ? 'All systems operational' : `Some systems ${STATUS_LABEL[report.status].toLowerCase()}`}
+            </h1>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8">
+            <ul className="divide-y divide-border">
+              {report.services.map(service => (
+                <li key={service.id} className="flex items-center justify-between py-3" data-testid={`status-${service.id}`}>
+                  <span className="text-card-foreground">{service.name}</span>
+                  <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                    {service.latencyMs !== null && <span className="text-muted-foreground">{service.latencyMs} ms</span>}
+                    <span className={`w-2.5 h-2.5 rounded-full ${STATUS_DOT[service.status]}`} aria-hidden />
+                    {STATUS_LABEL[service.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-muted-foreground mt-4 text-right">
+              Last checked {formatTime(report.checkedAt)}
+            </p>
+          </div>
+        </section>
+
+        {/* 90-day uptime — one bar per UTC day, grey where we have no probes. */}
+        <section aria-labelledby="uptime-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-5">
+            <h2 id="uptime-heading" className="text-2xl font-display font-bold text-primary-foreground text-center">
+              {store.durable ? `${HISTORY_RETENTION_DAYS}-day uptime` : 'Uptime since last restart'}
+            </h2>
+            {!store.durable && (
+              <p className="text-sm text-primary-foreground/80 text-center mt-1" data-testid="status-history-volatile">
+                History isn't stored yet, so these figures only cover this server since it last started.
+              </p>
+            )}
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8 flex flex-col gap-8">
+            {!history ? (
+              <HistoryUnavailable />
+            ) : (
+              SERVICES.map(service => {
+                const days = dailyUptime(history, service.id, HISTORY_RETENTION_DAYS)
+                return (
+                  <div key={service.id}>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-card-foreground">{service.name}</span>
+                      <span className="text-sm text-muted-foreground">{formatPercent(overallUptime(days))}</span>
+                    </div>
+                    <div className="flex gap-px h-8" role="img" aria-label={`${service.name} daily uptime ${period}`}>
+                      {days.map(day => (
+                        <span
+                          key={day.date}
+                          className={`flex-1 rounded-sm ${dayBarClass(day)}`}
+                          title={`${day.date}: ${formatPercent(day.uptime)}`}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                      <span>{HISTORY_RETENTION_DAYS} days ago</span>
+                      <span>Today</span>
+                    </div>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </section>
+
+        <section aria-labelledby="incidents-heading">
+          <div className="bg-primary rounded-t-lg px-8 py-5">
+            <h2 id="incidents-heading" className="text-2xl font-display font-bold text-primary-foreground text-center">
+              Incidents
+            </h2>
+          </div>
+          <div className="bg-card rounded-b-lg px-8 py-8">
+            {!history ? (
+              <HistoryUnavailable />
+            ) : incidents.length === 0 ? (
+              <p className="text-muted-foreground text-center">
+                No incidents {period}.
+              </p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {incidents.map(incident => (
+                  <li key={`${incident.serviceId}-${incident.startedAt}`} className="py-4">
+                    <div className="flex items-center gap-2">
+                      <span className={`w-2.5 h-2.5 rounded-full ${STATUS_DOT[incident.status]}`} aria-hidden />
+                      <span className="text-card-foreground font-semibold">
+                        {SERVICE_NAMES.get(incident.serviceId) ?? incident.serviceId} {STATUS_LABEL[incident.status].toLowerCase()}
+                      </span>
+                      {incident.resolvedAt === null && (
+                        <span className="ml-auto text-xs uppercase tracking-wide text-destructive">Ongoing</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {formatTime(incident.startedAt)}
+                      {' → '}
+                      {incident.resolvedAt ? formatTime(incident.resolvedAt) : 'now'}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
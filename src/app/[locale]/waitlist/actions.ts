@@ -0,0 +1,55 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { clientIp, createRateLimiter } from '@/lib/rate-limit'
+import { normalizeEmail } from '@/lib/waitlist/email'
+import { confirmSignup, type ConfirmResult, requestSignup } from '@/lib/waitlist/signup'
+
+/** Looked up in the `waitlist.errors` catalog by the form, in the page's language. */
+export type WaitlistError = 'invalid-email' | 'rate-limited' | 'server'
+
+export interface WaitlistFormState {
+  status: 'idle' | 'sent' | 'error'
+  error?: WaitlistError
+}
+
+// A handful of attempts per IP per 10 minutes covers typos and resends and
+// slows down scripted submissions. It's per instance, so the guard against
+// mail-bombing one address is the resend cooldown in lib/waitlist/signup.
+const signupLimiter = createRateLimiter({ limit: 5, windowMs: 10 * 60_000 })
+
+export async function joinWaitlist(_prev: WaitlistFormState, formData: FormData): Promise<WaitlistFormState> {
+  // Honeypot: hidden from people, filled in by naive bots. Pretend success.
+  if (formData.get('website')) return { status: 'sent' }
+
+  const email = normalizeEmail(formData.get('email'))
+  if (!email) {
+    return { status: 'error', error: 'invalid-email' }
+  }
+
+  if (!signupLimiter.consume(clientIp(await headers()))) {
+    return { status: 'error', error: 'rate-limited' }
+  }
+
+  try {
+    await requestSignup(email)
+  } catch (err) {
+    console.error('[waitlist] signup failed', err)
+    return { status: 'error', error: 'server' }
+  }
+  return { status: 'sent' }
+}
+
+/** `'server'` when the store couldn't be reached; the link itself may still be good. */
+export type ConfirmFormResult = ConfirmResult | 'server'
+
+export async function confirmWaitlist(_prev: ConfirmFormResult | null, formData: FormData): Promise<ConfirmFormResult> {
+  const token = formData.get('token')
+  if (typeof token !== 'string' || !token) return 'invalid'
+  try {
+    return await confirmSignup(token)
+  } catch (err) {
+    console.error('[waitlist] confirmation failed', err)
+    return 'server'
+  }
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import Link from 'next/link'
+import { useActionState } from 'react'
+import { confirmWaitlist } from '../actions'
+
+const RESULT_COPY = {
+  confirmed: "You're on the list! We'll email you when CFG Core is back.",
+  'already-confirmed': "You're already on the list — nothing else to do.",
+  expired: "That confirmation link has expired. Sign up again on the homepage and we'll send you a new one.",
+  invalid: 'That confirmation link is invalid or has been replaced by a newer one.',
+} as const
+
+const SERVER_ERROR = 'Something went wrong on our end. Please try again in a few minutes.'
+
+export function ConfirmForm({ token }: { token: string }) {
+  const [result, formAction, pending] = useActionState(confirmWaitlist, null)
+
+  if (result && result !== 'server') {
+    return (
+      <div className="flex flex-col items-center gap-6" role="status">
+        <p className="text-card-foreground text-center">{RESULT_COPY[result]}</p>
+        <Link href="/" className="text-link hover:text-link/80">
+          ← Back to Crit Fumble Gaming
+        </Link>
+      </div>
+    )
+  }
+
+  // Confirmation needs a click rather than happening on page load, so mail
+  // scanners that prefetch links can't opt people in.
+  // A server error leaves the token unused, so the button stays for a retry.
+  return (
+    <form action={formAction} className="flex flex-col items-center gap-4">
+      {result === 'server' && (
+        <p className="text-destructive text-center" role="alert">
+          {SERVER_ERROR}
+        </p>
+      )}
+      <input type="hidden" name="token" value={token} />
+      <button
+        type="submit"
+        disabled={pending}
+        className="inline-flex items-center justify-center rounded-xl bg-primary hover:bg-primary/90 border-2 border-ring px-8 py-4 transition-colors disabled:opacity-60"
+      >
+        <span className="text-lg font-display font-bold text-primary-foreground">
+          {pending ? 'Confirming…' : 'Confirm my email'}
+        </span>
+      </button>
+    </form>
+  )
+}
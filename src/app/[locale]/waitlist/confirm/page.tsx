@@ -0,0 +1,37 @@
+import type { Metadata } from 'next'
+import { pageMetadata } from '@/lib/metadata'
+import { ConfirmForm } from './ConfirmForm'
+
+export const metadata: Metadata = {
+  ...pageMetadata({
+    title: 'Confirm your email',
+    description: 'Confirm your spot on the CFG Core relaunch waitlist.',
+    path: '/waitlist/confirm',
+  }),
+  robots: { index: false },
+}
+
+type Props = { searchParams: Promise<{ token?: string | string[] }> }
+
+export default async function ConfirmWaitlistPage({ searchParams }: Props) {
+  const { token } = await searchParams
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <section className="max-w-lg w-full" aria-labelledby="confirm-heading">
+        <div className="bg-primary rounded-t-lg px-8 py-6">
+          <h1 id="confirm-heading" className="text-3xl font-display font-bold text-primary-foreground text-center">
+            CFG Core waitlist
+          </h1>
+        </div>
+        <div className="bg-card rounded-b-lg px-8 py-10">
+          {typeof token === 'string' && token ? (
+            <ConfirmForm token={token} />
+          ) : (
+            <p className="text-card-foreground text-center">This confirmation link is missing its token.</p>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
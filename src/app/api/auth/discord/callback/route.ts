@@ -0,0 +1,53 @@
+import { timingSafeEqual } from 'node:crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import { completeSignIn, decodeOAuthState, isSignInEnabled, OAUTH_STATE_COOKIE, type SignInError } from '@/lib/auth/discord'
+import { sealSession, SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session'
+
+export const dynamic = 'force-dynamic'
+
+function sameState(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Discord redirects here after the consent screen. Every failure lands on
+ * /account with an ?error= code the page explains; the state cookie is
+ * single-use either way.
+ */
+export async function GET(request: NextRequest) {
+  if (!isSignInEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const params = request.nextUrl.searchParams
+  const saved = decodeOAuthState(request.cookies.get(OAUTH_STATE_COOKIE)?.value)
+
+  const finish = (path: string) => {
+    const response = NextResponse.redirect(new URL(path, request.nextUrl.origin), 303)
+    response.cookies.delete(OAUTH_STATE_COOKIE)
+    response.headers.set('Cache-Control', 'no-store')
+    return response
+  }
+  const fail = (error: SignInError) => finish(`/account?error=${error}`)
+
+  if (params.get('error') === 'access_denied') return fail('denied')
+  const code = params.get('code')
+  const state = params.get('state')
+  if (!saved || !code || !state || !sameState(state, saved.state)) return fail('expired')
+
+  try {
+    const session = await completeSignIn({
+      code,
+      redirectUri: new URL('/api/auth/discord/callback', request.nextUrl.origin).toString(),
+    })
+    const response = finish(saved.returnTo)
+    const maxAge = Math.floor((session.expiresAt - Date.now()) / 1000)
+    response.cookies.set(SESSION_COOKIE, sealSession(session), sessionCookieOptions(maxAge))
+    return response
+  } catch (err) {
+    console.error('[auth] Discord sign-in failed', err)
+    return fail('failed')
+  }
+}
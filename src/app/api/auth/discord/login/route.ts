@@ -0,0 +1,34 @@
+import { randomBytes } from 'node:crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  buildSignInUrl,
+  encodeOAuthState,
+  isSignInEnabled,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE_S,
+  safeReturnTo,
+} from '@/lib/auth/discord'
+import { sessionCookieOptions } from '@/lib/auth/session'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Starts "Sign in with Discord".
+ *   GET /api/auth/discord/login?returnTo=/account
+ * The state nonce rides in a short-lived cookie and must come back
+ * unchanged on the callback, so a forged callback can't sign someone in.
+ */
+export function GET(request: NextRequest) {
+  if (!isSignInEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const state = randomBytes(16).toString('base64url')
+  const returnTo = safeReturnTo(request.nextUrl.searchParams.get('returnTo'))
+  const redirectUri = new URL('/api/auth/discord/callback', request.nextUrl.origin).toString()
+
+  const response = NextResponse.redirect(buildSignInUrl({ redirectUri, state }), 307)
+  response.cookies.set(OAUTH_STATE_COOKIE, encodeOAuthState(state, returnTo), sessionCookieOptions(OAUTH_STATE_MAX_AGE_S))
+  response.headers.set('Cache-Control', 'no-store')
+  return response
+}
@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session'
+
+/**
+ * Signs out by dropping the session cookie. POST-only (a form button on
+ * /account) so a stray link or prefetch can't sign anyone out.
+ */
+export function POST(request: NextRequest) {
+  const response = NextResponse.redirect(new URL('/', request.nextUrl.origin), 303)
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0))
+  return response
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { parseCspReports, recordCspViolations } from '@/lib/csp/reports'
+
+export const dynamic = 'force-dynamic'
+
+// Real reports are a few KB at most; anything bigger isn't a browser.
+const MAX_BODY_BYTES = 64 * 1024
+
+// Accepts both the legacy `report-uri` format (application/csp-report) and
+// Reporting API batches (application/reports+json). Always answers 204 so
+// browsers don't retry.
+export async function POST(request: NextRequest) {
+  const length = Number(request.headers.get('content-length') ?? 0)
+  if (length > MAX_BODY_BYTES) {
+    return new NextResponse(null, { status: 413 })
+  }
+
+  const text = await request.text()
+  if (text.length > MAX_BODY_BYTES) {
+    return new NextResponse(null, { status: 413 })
+  }
+
+  try {
+    recordCspViolations(parseCspReports(JSON.parse(text)))
+  } catch {
+    // Malformed report — nothing useful to record.
+  }
+  return new NextResponse(null, { status: 204 })
+}
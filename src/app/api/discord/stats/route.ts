@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getDiscordInviteStats, INVITE_STATS_REVALIDATE_S } from '@/lib/discord/invite'
+
+export const revalidate = 300
+
+export async function GET() {
+  const stats = await getDiscordInviteStats()
+  if (!stats) {
+    return NextResponse.json({ error: 'Discord stats unavailable' }, { status: 503 })
+  }
+  return NextResponse.json(stats, {
+    headers: {
+      'Cache-Control': `public, s-maxage=${INVITE_STATS_REVALIDATE_S}, stale-while-revalidate=${INVITE_STATS_REVALIDATE_S}`,
+    },
+  })
+}
@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { parseEventPayload } from '@/lib/analytics/events'
+import { getAnalyticsStore } from '@/lib/analytics/store'
+import { prefersNoTracking, utcDay, visitorHash } from '@/lib/analytics/visitor'
+import { clientIp, createRateLimiter } from '@/lib/rate-limit'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_BODY_BYTES = 2 * 1024
+
+// A real visitor sends a handful of events per page; this only stops a
+// script from inflating the counts.
+const limiter = createRateLimiter({ limit: 120, windowMs: 60_000 })
+
+/**
+ * Cookieless event collector for the client helper in lib/analytics/client.
+ * Always answers 204 — including when the event is dropped for DNT/GPC, a
+ * bad payload, rate limiting or a storage failure — so it never leaks why
+ * and beacons never retry.
+ */
+export async function POST(request: NextRequest) {
+  const noContent = new NextResponse(null, { status: 204 })
+  if (prefersNoTracking(request.headers)) return noContent
+
+  const ip = clientIp(request.headers)
+  if (!limiter.consume(ip)) return noContent
+
+  const text = await request.text()
+  if (text.length > MAX_BODY_BYTES) return noContent
+
+  let payload
+  try {
+    payload = parseEventPayload(JSON.parse(text))
+  } catch {
+    return noContent
+  }
+  if (!payload) return noContent
+
+  const now = new Date()
+  try {
+    const store = getAnalyticsStore()
+    const salt = await store.dailySalt(utcDay(now))
+    await store.record({
+      ...payload,
+      at: now.toISOString(),
+      visitor: visitorHash(salt, ip, request.headers.get('user-agent') ?? ''),
+    })
+  } catch (err) {
+    // No durable store configured, or KV is down: ours to fix, not the
+    // visitor's, but it has to show up in the logs.
+    console.error('[analytics] event not recorded', err)
+  }
+  return noContent
+}
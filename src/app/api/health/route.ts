@@ -1,16 +1,17 @@
 import { NextResponse } from 'next/server'
+import { getHealthReport, HEALTH_CACHE_TTL_MS } from '@/lib/health/probe'
 
 export const dynamic = 'force-dynamic'
 
-const CORE_URL = process.env.CORE_PUBLIC_URL ?? 'https://core.crit-fumble.com'
+const MAX_AGE_S = HEALTH_CACHE_TTL_MS / 1000
 
 export async function GET() {
-  try {
-    const res = await fetch(`${CORE_URL}/health`, {
-      signal: AbortSignal.timeout(5000),
-    })
-    return NextResponse.json({ ok: res.ok })
-  } catch {
-    return NextResponse.json({ ok: false })
-  }
+  const report = await getHealthReport()
+  return NextResponse.json(report, {
+    headers: {
+      // Let Vercel's edge absorb bursts too — the in-process cache only
+      // covers a single warm lambda.
+      'Cache-Control': `public, s-maxage=${MAX_AGE_S}, stale-while-revalidate=${MAX_AGE_S}`,
+    },
+  })
 }
@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { isAdminAuthorized, isAdminEnabled } from '@/lib/admin'
+import { getWaitlistStore } from '@/lib/waitlist/store'
+
+export const dynamic = 'force-dynamic'
+
+// Quote every field; emails can legally contain commas and quotes. A
+// leading = + - @ tab or CR would make a spreadsheet read the field as a
+// formula, so those get a ' in front to keep them text.
+function csvField(value: string | null): string {
+  const text = (value ?? '').replace(/^[=+\-@\t\r]/, "'$&")
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+/**
+ * Confirmed waitlist signups, for mailing everyone when Core relaunches.
+ *   GET /api/waitlist/export               → CSV
+ *   GET /api/waitlist/export?format=json   → JSON
+ * Requires `Authorization: Bearer $ADMIN_API_TOKEN`. Pending (unconfirmed)
+ * addresses are never exported.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  if (!isAdminAuthorized(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const confirmed = (await getWaitlistStore().list())
+    .filter(s => s.status === 'confirmed')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(({ email, createdAt, confirmedAt }) => ({ email, createdAt, confirmedAt }))
+
+  const headers = { 'Cache-Control': 'no-store' }
+
+  if (request.nextUrl.searchParams.get('format') === 'json') {
+    return NextResponse.json(confirmed, { headers })
+  }
+
+  const rows = [
+    'email,created_at,confirmed_at',
+    ...confirmed.map(s => [s.email, s.createdAt, s.confirmedAt].map(csvField).join(',')),
+  ]
+  return new NextResponse(rows.join('\n') + '\n', {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="core-waitlist.csv"',
+    },
+  })
+}
@@ -0,0 +1,11 @@
+import { buildAtom } from '@/lib/journal/feeds'
+import { getAllPosts } from '@/lib/journal/posts'
+
+export async function GET() {
+  return new Response(buildAtom(await getAllPosts()), {
+    headers: {
+      'Content-Type': 'application/atom+xml; charset=utf-8',
+      'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+    },
+  })
+}
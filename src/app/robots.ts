@@ -0,0 +1,13 @@
+import type { MetadataRoute } from 'next'
+import { absoluteUrl } from '@/lib/site'
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/api/', '/admin/', '/account', '/resesh/install'],
+    },
+    sitemap: absoluteUrl('/sitemap.xml'),
+  }
+}
@@ -0,0 +1,23 @@
+import { buildCalendar, CALENDAR_NAME } from '@/lib/schedule/ical'
+import { sessionsBetween } from '@/lib/schedule/schedule'
+
+const DAY_MS = 86_400_000
+// Keep recent sessions so they don't vanish from calendars the moment they end.
+const PAST_DAYS = 14
+const FUTURE_DAYS = 180
+
+export function GET() {
+  const now = new Date()
+  const occurrences = sessionsBetween(
+    new Date(now.getTime() - PAST_DAYS * DAY_MS),
+    new Date(now.getTime() + FUTURE_DAYS * DAY_MS),
+  )
+
+  return new Response(buildCalendar(occurrences, now), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${CALENDAR_NAME.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics"`,
+      'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+    },
+  })
+}
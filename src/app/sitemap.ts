@@ -0,0 +1,53 @@
+import type { MetadataRoute } from 'next'
+import { getCreators } from '@/lib/creators'
+import { languageAlternates, LOCALIZED_PATHS } from '@/lib/i18n/locales'
+import { getAllPosts } from '@/lib/journal/posts'
+import { SERVER_KINDS } from '@/lib/servers'
+import { absoluteUrl } from '@/lib/site'
+
+// Add new top-level pages here; catalog-driven pages are listed from their
+// catalog so they can't be forgotten.
+const STATIC_ROUTES: { path: string; priority: number; changeFrequency: MetadataRoute.Sitemap[number]['changeFrequency'] }[] = [
+  { path: '/', priority: 1, changeFrequency: 'weekly' },
+  { path: '/journal', priority: 0.6, changeFrequency: 'weekly' },
+  { path: '/schedule', priority: 0.6, changeFrequency: 'weekly' },
+  { path: '/creators', priority: 0.6, changeFrequency: 'weekly' },
+  { path: '/pricing', priority: 0.7, changeFrequency: 'monthly' },
+  { path: '/resesh/demo', priority: 0.6, changeFrequency: 'monthly' },
+  { path: '/status', priority: 0.5, changeFrequency: 'always' },
+]
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [posts, creators] = await Promise.all([getAllPosts(), getCreators()])
+  return [
+    // Translated pages list their other languages as hreflang alternates.
+    ...STATIC_ROUTES.map(({ path, priority, changeFrequency }) => ({
+      url: absoluteUrl(path),
+      priority,
+      changeFrequency,
+      ...(LOCALIZED_PATHS.has(path) && {
+        alternates: {
+          languages: Object.fromEntries(
+            Object.entries(languageAlternates(path)).map(([language, href]) => [language, absoluteUrl(href)]),
+          ),
+        },
+      }),
+    })),
+    ...SERVER_KINDS.map(kind => ({
+      url: absoluteUrl(`/servers/${kind.slug}`),
+      priority: 0.7,
+      changeFrequency: 'monthly' as const,
+    })),
+    ...creators.map(creator => ({
+      url: absoluteUrl(`/creators/${creator.handle}`),
+      priority: 0.4,
+      changeFrequency: 'monthly' as const,
+    })),
+    ...posts.map(post => ({
+      url: absoluteUrl(`/journal/${post.slug}`),
+      lastModified: post.date,
+      priority: 0.5,
+      changeFrequency: 'yearly' as const,
+    })),
+  ]
+}
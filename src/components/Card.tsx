@@ -0,0 +1,80 @@
+import type { ReactNode } from 'react'
+
+// The site's card: a coloured header band over a themed card body. Sizes map to
+// where the card sits on the homepage, so spacing and type scale stay
+// consistent without each call site repeating the class lists.
+
+type CardSize = 'hero' | 'feature' | 'product' | 'section' | 'tile'
+
+const SIZES: Record<CardSize, { header: string; title: string; body: string }> = {
+  hero: { header: 'px-8 py-6', title: 'text-4xl md:text-5xl', body: 'px-8 py-10' },
+  feature: { header: 'px-8 py-6', title: 'text-3xl', body: 'px-8 py-10' },
+  product: { header: 'px-6 py-6', title: 'text-3xl', body: 'px-6 py-8' },
+  section: { header: 'px-6 py-5', title: 'text-2xl', body: 'px-6 py-8' },
+  tile: { header: 'px-6 py-5', title: 'text-xl', body: 'px-6 py-6' },
+}
+
+const TONES = {
+  purple: 'bg-primary text-primary-foreground',
+  // Discord's brand blurple is the same in both themes.
+  discord: 'bg-discord text-white',
+} as const
+
+export interface CardProps {
+  heading: ReactNode
+  /** Links the heading to the card for aria-labelledby. */
+  headingId?: string
+  headingLevel?: 1 | 2 | 3
+  size?: CardSize
+  tone?: keyof typeof TONES
+  /** Shown beside the heading, e.g. a logo. */
+  icon?: ReactNode
+  /** Shown under the heading inside the header band. */
+  subheading?: ReactNode
+  /** Stretch to the row height in a grid, pushing body content to fill. */
+  stretch?: boolean
+  /** Render as a <section> landmark (otherwise a <div>). */
+  landmark?: boolean
+  className?: string
+  bodyClassName?: string
+  children: ReactNode
+}
+
+export function Card({
+  heading,
+  headingId,
+  headingLevel = 2,
+  size = 'section',
+  tone = 'purple',
+  icon,
+  subheading,
+  stretch = false,
+  landmark = false,
+  className = '',
+  bodyClassName = '',
+  children,
+}: CardProps) {
+  const { header, title, body } = SIZES[size]
+  const Heading = `h${headingLevel}` as const
+  const Wrapper = landmark ? 'section' : 'div'
+
+  return (
+    <Wrapper
+      className={[stretch && 'flex flex-col', className].filter(Boolean).join(' ') || undefined}
+      aria-labelledby={landmark ? headingId : undefined}
+    >
+      <div className={`${TONES[tone]} rounded-t-lg ${header} flex items-center justify-center gap-3`}>
+        {icon}
+        <div className="flex flex-col items-center">
+          <Heading id={headingId} className={`${title} font-display font-bold text-center`}>
+            {heading}
+          </Heading>
+          {subheading}
+        </div>
+      </div>
+      <div className={['bg-card rounded-b-lg', body, stretch && 'flex-1 flex flex-col', bodyClassName].filter(Boolean).join(' ')}>
+        {children}
+      </div>
+    </Wrapper>
+  )
+}
@@ -0,0 +1,92 @@
+import Image from 'next/image'
+import Link from 'next/link'
+import type { ContentBadge, ContentImage, ContentLink } from '@/lib/content/home'
+
+// Renderers for the link shapes in lib/content. Internal hrefs go through
+// next/link unless they lead to a page in another language (see
+// LocaleLink); data-testid doubles as the analytics key for outbound clicks.
+
+function newTabProps(newTab: boolean | undefined, rel = 'noopener noreferrer') {
+  return newTab ? { target: '_blank', rel } : {}
+}
+
+export function TextLink({ link, className }: { link: ContentLink; className: string }) {
+  if (link.href.startsWith('/') && !link.newTab && !link.hrefLang) {
+    return (
+      <Link href={link.href} className={className} data-testid={link.testId}>
+        {link.label}
+      </Link>
+    )
+  }
+  return (
+    <a
+      href={link.href}
+      hrefLang={link.hrefLang}
+      className={className}
+      data-testid={link.testId}
+      {...newTabProps(link.newTab)}
+    >
+      {link.label}
+    </a>
+  )
+}
+
+const BUTTON_SIZES = {
+  lg: { button: 'px-8 py-4', label: 'text-lg md:text-xl' },
+  md: { button: 'px-6 py-3 w-full', label: 'text-base' },
+} as const
+
+/** The purple call-to-action button used across cards. */
+export function CtaButton({ link, size = 'lg' }: { link: ContentLink; size?: keyof typeof BUTTON_SIZES }) {
+  const { button, label } = BUTTON_SIZES[size]
+  return (
+    <a
+      href={link.href}
+      hrefLang={link.hrefLang}
+      data-testid={link.testId}
+      {...newTabProps(link.newTab)}
+      className={`inline-flex items-center justify-center rounded-xl bg-primary hover:bg-primary/90 border-2 border-ring ${button} transition-colors`}
+    >
+      <span className={`${label} font-display font-bold text-primary-foreground`}>{link.label}</span>
+    </a>
+  )
+}
+
+export function ContentImageTag({
+  image,
+  className,
+  style,
+}: {
+  image: ContentImage
+  className?: string
+  style?: React.CSSProperties
+}) {
+  return (
+    <Image
+      src={image.src}
+      alt={image.alt}
+      width={image.width}
+      height={image.height}
+      className={className}
+      style={style}
+      // Remote images (affiliate badges) must load from their own CDN to track.
+      unoptimized={!image.src.startsWith('/') || image.src.endsWith('.svg')}
+    />
+  )
+}
+
+export function BadgeLink({ badge }: { badge: ContentBadge }) {
+  return (
+    <a
+      href={badge.href}
+      data-testid={badge.testId}
+      target="_blank"
+      rel={badge.sponsored ? 'sponsored noopener noreferrer' : 'noopener noreferrer'}
+      aria-label={badge.label}
+      className="inline-block"
+    >
+      {/* Badge artwork varies in width; pin the height and let it scale. */}
+      <ContentImageTag image={badge.image} style={{ height: badge.image.height, width: 'auto' }} />
+    </a>
+  )
+}
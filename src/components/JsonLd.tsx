@@ -0,0 +1,19 @@
+import { getCspNonce } from '@/lib/csp/nonce'
+
+// `<` is escaped so a string value containing `</script>` can't close the
+// tag early.
+function serialize(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
+
+/** Inline JSON-LD block, carrying the request's CSP nonce. */
+export async function JsonLd({ data }: { data: object | object[] }) {
+  const nonce = await getCspNonce()
+  return (
+    <script
+      type="application/ld+json"
+      nonce={nonce}
+      dangerouslySetInnerHTML={{ __html: serialize(data) }}
+    />
+  )
+}
@@ -0,0 +1,16 @@
+import Link from 'next/link'
+import type { ComponentProps } from 'react'
+import { hrefLocale, type Locale, localePath } from '@/lib/i18n/locales'
+
+/**
+ * An internal link from a page rendered in `locale`. Translated targets get
+ * the locale prefix; a target in another language is a full page load with
+ * hreflang, because a client-side navigation would keep the root layout —
+ * and its html lang — from the page being left.
+ */
+export function LocaleLink({ locale, href, ...props }: { locale: Locale; href: string } & Omit<ComponentProps<'a'>, 'href'>) {
+  const target = localePath(locale, href)
+  const language = hrefLocale(target, locale)
+  if (language === locale) return <Link href={target} {...props} />
+  return <a href={target} hrefLang={language} {...props} />
+}
@@ -0,0 +1,17 @@
+import { Fragment, type ReactNode } from 'react'
+
+/**
+ * A catalog message with `{placeholders}` filled by elements, for copy
+ * with markup mid-sentence: `<Message text={t.needsCoins} values={{ cc: <strong>…</strong> }} />`.
+ * Plain-string placeholders can use formatMessage instead.
+ */
+export function Message({ text, values }: { text: string; values: Record<string, ReactNode> }) {
+  return (
+    <>
+      {text.split(/\{([A-Za-z]+)\}/).map((part, i) =>
+        // split() with a capture group alternates text and placeholder names.
+        i % 2 === 0 ? part : <Fragment key={i}>{part in values ? values[part] : `{${part}}`}</Fragment>,
+      )}
+    </>
+  )
+}
@@ -0,0 +1,70 @@
+import Link from 'next/link'
+import { type AccountOverview, ONBOARDING_STEPS } from '@/lib/account'
+import type { Locale } from '@/lib/i18n/locales'
+import { getMessages } from '@/lib/i18n/messages'
+
+// Join Discord → Enter Core → Add ReSesh, with the visitor's progress.
+// Shared by /account and the homepage's signed-in welcome card.
+
+export function NextStepCta({
+  overview,
+  locale,
+  size = 'lg',
+}: {
+  overview: AccountOverview
+  locale: Locale
+  size?: 'lg' | 'md'
+}) {
+  const { nextStep } = overview
+  const { label } = getMessages(locale).onboarding.steps[nextStep.id]
+  const className = `inline-flex items-center justify-center rounded-xl bg-primary hover:bg-primary/90 border-2 border-ring ${
+    size === 'lg' ? 'px-8 py-4 text-lg' : 'px-5 py-2'
+  } font-display font-bold text-primary-foreground transition-colors`
+
+  return nextStep.href.startsWith('/') ? (
+    <Link href={nextStep.href} className={className} data-testid="account-next-step-cta">
+      {label}
+    </Link>
+  ) : (
+    <a href={nextStep.href} target="_blank" rel="noopener noreferrer" className={className} data-testid="account-next-step-cta">
+      {label}
+    </a>
+  )
+}
+
+export function OnboardingSteps({ overview, locale }: { overview: AccountOverview; locale: Locale }) {
+  const t = getMessages(locale).onboarding
+  return (
+    <ol className="flex flex-col gap-3" data-testid="onboarding-steps">
+      {ONBOARDING_STEPS.map((step, i) => {
+        const done = overview.completed.has(step.id)
+        const next = overview.nextStep.id === step.id
+        const { label, description } = t.steps[step.id]
+        return (
+          <li
+            key={step.id}
+            className={`flex items-start gap-4 rounded-lg px-4 py-3 ${next ? 'bg-accent ring-1 ring-ring' : 'bg-muted'}`}
+            aria-current={next ? 'step' : undefined}
+          >
+            <span
+              className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full font-display font-bold ${
+                done ? 'bg-primary text-primary-foreground' : 'border-2 border-input text-muted-foreground'
+              }`}
+              aria-hidden
+            >
+              {done ? '✓' : i + 1}
+            </span>
+            <div className="flex flex-col gap-1">
+              <span className="font-display font-bold text-card-foreground">
+                {label}
+                {done && <span className="sr-only"> {t.done}</span>}
+                {next && <span className="ml-2 text-xs font-sans font-normal text-link">{t.next}</span>}
+              </span>
+              <span className="text-sm text-muted-foreground">{description}</span>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,65 @@
+import { isCommunityMember, isSignInEnabled } from './auth/discord'
+import { getSession, type Session } from './auth/session'
+import { getWalletBalances, type WalletLookup } from './core/client'
+import { DISCORD_INVITE_URL } from './discord/invite'
+import { CORE_APP_URL } from './site'
+
+// The setup path the homepage describes — join Discord, enter Core, add
+// ReSesh — resolved for one signed-in visitor.
+
+export type OnboardingStepId = 'join-discord' | 'enter-core' | 'add-resesh'
+
+// Labels and descriptions are in the message catalogs, under
+// onboarding.steps.<id>.
+export interface OnboardingStep {
+  id: OnboardingStepId
+  href: string
+}
+
+export const ONBOARDING_STEPS: readonly OnboardingStep[] = [
+  { id: 'join-discord', href: DISCORD_INVITE_URL },
+  { id: 'enter-core', href: CORE_APP_URL },
+  { id: 'add-resesh', href: '/resesh/install' },
+]
+
+export interface AccountOverview {
+  /** null when Discord couldn't be asked right now. */
+  member: boolean | null
+  wallet: WalletLookup
+  nextStep: OnboardingStep
+  /** Steps we can confirm are done. ReSesh installs aren't visible to www. */
+  completed: ReadonlySet<OnboardingStepId>
+}
+
+function step(id: OnboardingStepId): OnboardingStep {
+  return ONBOARDING_STEPS.find(s => s.id === id)!
+}
+
+/**
+ * A wallet proves they've been through Core, which itself requires the
+ * Discord membership — so it settles the Discord step when the membership
+ * check is unavailable. A definite "not a member" (they left) still wins:
+ * Core won't let them back in until they rejoin.
+ */
+export function resolveOnboarding(member: boolean | null, wallet: WalletLookup): Omit<AccountOverview, 'member' | 'wallet'> {
+  const completed = new Set<OnboardingStepId>()
+  if (member === true || (member === null && wallet.status === 'ok')) completed.add('join-discord')
+  if (wallet.status === 'ok') completed.add('enter-core')
+
+  const nextStep =
+    member === false ? step('join-discord') : wallet.status === 'ok' ? step('add-resesh') : step('enter-core')
+  return { nextStep, completed }
+}
+
+export async function getAccountOverview(session: Session): Promise<AccountOverview> {
+  const [member, wallet] = await Promise.all([isCommunityMember(session), getWalletBalances(session.accessToken)])
+  return { member, wallet, ...resolveOnboarding(member, wallet) }
+}
+
+/** The signed-in visitor and their progress, or null when signed out or sign-in is off. */
+export async function getCurrentAccount(): Promise<{ session: Session; overview: AccountOverview } | null> {
+  if (!isSignInEnabled()) return null
+  const session = await getSession()
+  if (!session) return null
+  return { session, overview: await getAccountOverview(session) }
+}
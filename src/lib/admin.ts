@@ -0,0 +1,36 @@
+import { timingSafeEqual } from 'node:crypto'
+
+// Shared-secret guard for admin-only endpoints (waitlist export, etc.) and
+// the /admin pages. Deliberately separate from Discord sign-in (lib/auth),
+// which only identifies players: a token set in Vercel env is the whole
+// admin auth story. Unset token = admin disabled.
+
+export const ADMIN_REALM = 'Crit-Fumble admin'
+
+export function isAdminEnabled(): boolean {
+  return Boolean(process.env.ADMIN_API_TOKEN)
+}
+
+function matchesToken(given: string): boolean {
+  const expected = process.env.ADMIN_API_TOKEN
+  if (!expected) return false
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Checks an Authorization header against ADMIN_API_TOKEN. Scripts send
+ * `Bearer <token>`; browsers visiting /admin use Basic auth with the token
+ * as the password (the username is ignored).
+ */
+export function isAdminAuthorized(authorization: string | null): boolean {
+  if (!authorization) return false
+  if (authorization.startsWith('Bearer ')) return matchesToken(authorization.slice('Bearer '.length))
+  if (authorization.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8')
+    const separator = decoded.indexOf(':')
+    return separator !== -1 && matchesToken(decoded.slice(separator + 1))
+  }
+  return false
+}
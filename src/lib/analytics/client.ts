@@ -0,0 +1,42 @@
+import { type AnalyticsEventPayload, EVENTS_PATH } from './events'
+
+// Browser-side helpers for /api/events. Everything is fire-and-forget:
+// analytics must never delay a navigation or surface an error.
+
+export function trackingAllowed(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean }
+  return nav.doNotTrack !== '1' && nav.globalPrivacyControl !== true
+}
+
+function send(payload: AnalyticsEventPayload) {
+  if (!trackingAllowed()) return
+  const body = JSON.stringify(payload)
+  // sendBeacon survives the page unloading for an outbound click; fetch
+  // with keepalive is the fallback where beacons are unavailable.
+  if (navigator.sendBeacon?.(EVENTS_PATH, new Blob([body], { type: 'application/json' }))) return
+  fetch(EVENTS_PATH, { method: 'POST', body, keepalive: true, headers: { 'Content-Type': 'application/json' } }).catch(
+    () => {},
+  )
+}
+
+export function trackPageView(path = location.pathname) {
+  send({ type: 'pageview', path })
+}
+
+export function trackClick(target: string, href?: string) {
+  send({ type: 'click', path: location.pathname, target, ...(href && { href }) })
+}
+
+/**
+ * The key a clicked link or button is counted under: its data-testid, else
+ * its id. An untagged outbound link (pass its `outbound` URL) falls back to
+ * the nearest tagged ancestor, then the destination host, so it still shows
+ * up, just less precisely. Other untagged elements aren't counted (null) —
+ * their nearest tag is usually the whole page.
+ */
+export function clickTarget(element: HTMLElement, outbound?: URL): string | null {
+  if (element.dataset.testid) return element.dataset.testid
+  if (element.id) return element.id
+  if (!outbound) return null
+  return element.closest<HTMLElement>('[data-testid]')?.dataset.testid ?? outbound.hostname
+}
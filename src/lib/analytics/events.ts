@@ -0,0 +1,54 @@
+// First-party analytics events. Deliberately thin: no cookies, no client
+// ids, no full referrers or query strings — just enough to count page views
+// and which links and buttons get clicked.
+
+export type AnalyticsEventType = 'pageview' | 'click'
+
+/** What the client sends to /api/events. */
+export interface AnalyticsEventPayload {
+  type: AnalyticsEventType
+  /** Pathname only, e.g. "/servers/spacebar". */
+  path: string
+  /** click: the element's data-testid or id, e.g. "discord-join-cta". */
+  target?: string
+  /** click: destination origin + path, e.g. "https://discord.gg/D6vVANEJ3w". */
+  href?: string
+}
+
+/** What the store keeps. */
+export interface AnalyticsEvent extends AnalyticsEventPayload {
+  at: string
+  /** Salted hash identifying a visitor for one UTC day; see ./visitor. */
+  visitor: string
+}
+
+export const EVENTS_PATH = '/api/events'
+
+const MAX_FIELD_LENGTH = 200
+const TARGET_PATTERN = /^[A-Za-z0-9_:.-]+$/
+
+/** Validates an untrusted payload; null if it isn't one we'd record. */
+export function parseEventPayload(input: unknown): AnalyticsEventPayload | null {
+  if (typeof input !== 'object' || input === null) return null
+  const { type, path, target, href } = input as Record<string, unknown>
+
+  if (type !== 'pageview' && type !== 'click') return null
+  if (typeof path !== 'string' || !path.startsWith('/') || path.length > MAX_FIELD_LENGTH) return null
+
+  if (type === 'pageview') return { type, path: path.split(/[?#]/)[0] }
+
+  if (typeof target !== 'string' || !TARGET_PATTERN.test(target) || target.length > MAX_FIELD_LENGTH) return null
+  let destination: string | undefined
+  if (href !== undefined) {
+    if (typeof href !== 'string') return null
+    try {
+      const url = new URL(href)
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+      // Query strings can carry tokens or personal data; keep origin + path.
+      destination = (url.origin + url.pathname).slice(0, MAX_FIELD_LENGTH)
+    } catch {
+      return null
+    }
+  }
+  return { type, path: path.split(/[?#]/)[0], target, ...(destination && { href: destination }) }
+}
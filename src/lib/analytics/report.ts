@@ -0,0 +1,96 @@
+import type { DayStats } from './store'
+
+// Aggregations for /admin/analytics. Visitor hashes only hold within a UTC
+// day (see ./visitor), so uniques and the funnel are computed per day and
+// summed — a visitor who joins Discord today and enters Core tomorrow
+// doesn't count as converted.
+
+/**
+ * The homepage's setup flow: join Discord, then go into Core. Order isn't
+ * recorded — the funnel counts visitors who clicked a step of each on the
+ * same UTC day.
+ */
+export const FUNNEL_STEPS = {
+  discord: ['discord-join-cta', 'discord-server-link'],
+  core: ['core-enter-cta', 'core-subscribe-cta', 'core-buy-coins-cta', 'core-balance-cta', 'creator-tip-cta', 'pricing-subscribe-cta'],
+} as const
+
+export type DailyCounts = Omit<DayStats, 'paths' | 'targets'>
+
+export interface AnalyticsReport {
+  days: DailyCounts[]
+  totals: Omit<DailyCounts, 'day'>
+  /** coreAfterDiscord / discordVisitors, or null with no Discord clicks. */
+  conversion: number | null
+  topTargets: { target: string; clicks: number; visitors: number }[]
+  topPaths: { path: string; pageviews: number }[]
+}
+
+const discordTargets = new Set<string>(FUNNEL_STEPS.discord)
+const coreTargets = new Set<string>(FUNNEL_STEPS.core)
+
+/** Which funnel step a click target belongs to, if any. */
+export function funnelStep(target: string): 'discord' | 'core' | null {
+  return discordTargets.has(target) ? 'discord' : coreTargets.has(target) ? 'core' : null
+}
+
+function utcDays(since: Date, until: Date): string[] {
+  const days: string[] = []
+  const cursor = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()))
+  while (cursor <= until) {
+    days.push(cursor.toISOString().slice(0, 10))
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+  }
+  return days
+}
+
+function topEntries<T>(map: Map<string, T>, score: (value: T) => number, limit: number): [string, T][] {
+  return [...map].sort((a, b) => score(b[1]) - score(a[1]) || a[0].localeCompare(b[0])).slice(0, limit)
+}
+
+/**
+ * Totals and top lists over a range. Daily visitor counts are summed, so a
+ * visitor who comes back on several days counts once per day.
+ */
+export function buildReport(stats: DayStats[], since: Date, until = new Date()): AnalyticsReport {
+  const byDay = new Map(stats.map(s => [s.day, s]))
+  const targets = new Map<string, { clicks: number; visitors: number }>()
+  const paths = new Map<string, number>()
+
+  const days: DailyCounts[] = utcDays(since, until).map(day => {
+    const s = byDay.get(day)
+    if (!s) return { day, pageviews: 0, visitors: 0, clicks: 0, discordVisitors: 0, coreAfterDiscord: 0 }
+    for (const [path, pageviews] of Object.entries(s.paths)) paths.set(path, (paths.get(path) ?? 0) + pageviews)
+    for (const [target, t] of Object.entries(s.targets)) {
+      const entry = targets.get(target) ?? { clicks: 0, visitors: 0 }
+      targets.set(target, { clicks: entry.clicks + t.clicks, visitors: entry.visitors + t.visitors })
+    }
+    return {
+      day,
+      pageviews: s.pageviews,
+      visitors: s.visitors,
+      clicks: s.clicks,
+      discordVisitors: s.discordVisitors,
+      coreAfterDiscord: s.coreAfterDiscord,
+    }
+  })
+
+  const totals = days.reduce(
+    (sum, d) => ({
+      pageviews: sum.pageviews + d.pageviews,
+      visitors: sum.visitors + d.visitors,
+      clicks: sum.clicks + d.clicks,
+      discordVisitors: sum.discordVisitors + d.discordVisitors,
+      coreAfterDiscord: sum.coreAfterDiscord + d.coreAfterDiscord,
+    }),
+    { pageviews: 0, visitors: 0, clicks: 0, discordVisitors: 0, coreAfterDiscord: 0 },
+  )
+
+  return {
+    days,
+    totals,
+    conversion: totals.discordVisitors > 0 ? totals.coreAfterDiscord / totals.discordVisitors : null,
+    topTargets: topEntries(targets, t => t.clicks, 20).map(([target, { clicks, visitors }]) => ({ target, clicks, visitors })),
+    topPaths: topEntries(paths, n => n, 20).map(([path, pageviews]) => ({ path, pageviews })),
+  }
+}
@@ -0,0 +1,304 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { kvPipeline, resolveStoreBackend } from '../kv'
+import type { AnalyticsEvent } from './events'
+import { funnelStep } from './report'
+import { newSalt, SALT_TTL_S } from './visitor'
+
+// Event storage, same adapter shape as the health history: KV in
+// production (see lib/kv), a JSON file for local dev, and memory only when
+// asked for explicitly. Events aren't kept one by one: each is folded into
+// its UTC day's counters as it arrives, so a read is a fixed amount of work
+// per day however busy the site gets.
+
+export const ANALYTICS_RETENTION_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** One UTC day's counters, as /admin/analytics reads them. */
+export interface DayStats {
+  /** YYYY-MM-DD (UTC). */
+  day: string
+  pageviews: number
+  clicks: number
+  /** Distinct visitor hashes seen that day. */
+  visitors: number
+  /** Page views by path. */
+  paths: Record<string, number>
+  /** Clicks and distinct visitors by click target. */
+  targets: Record<string, { clicks: number; visitors: number }>
+  /** Visitors who clicked a Discord funnel step. */
+  discordVisitors: number
+  /** Of discordVisitors, how many also clicked a Core step that day. */
+  coreAfterDiscord: number
+}
+
+export interface AnalyticsStore {
+  /** The visitor-hash salt for a UTC day (see ./visitor), the same for every caller sharing the store. */
+  dailySalt(day: string): Promise<string>
+  record(event: AnalyticsEvent): Promise<void>
+  /** Every day from since's UTC date through until's that has data, oldest first. */
+  days(since: Date, until: Date): Promise<DayStats[]>
+}
+
+function utcDays(since: Date, until: Date): string[] {
+  const days: string[] = []
+  for (let t = Date.parse(since.toISOString().slice(0, 10)); t <= until.getTime(); t += DAY_MS) {
+    days.push(new Date(t).toISOString().slice(0, 10))
+  }
+  return days
+}
+
+function oldestKeptDay(): string {
+  return new Date(Date.now() - ANALYTICS_RETENTION_DAYS * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Memory and file stores only ever serve one process, so its own salt is
+// shared by everything that can see the same events.
+function processSalt(): (day: string) => Promise<string> {
+  let current: { day: string; salt: string } | null = null
+  return async day => {
+    if (current?.day !== day) current = { day, salt: newSalt() }
+    return current.salt
+  }
+}
+
+/** A day as the memory and file stores keep it: plain JSON, sets as lists. */
+interface LocalDay {
+  pageviews: number
+  clicks: number
+  visitors: string[]
+  paths: Record<string, number>
+  targets: Record<string, { clicks: number; visitors: string[] }>
+  discord: string[]
+  core: string[]
+}
+
+type LocalState = Record<string, LocalDay>
+
+function addTo(list: string[], value: string): void {
+  if (!list.includes(value)) list.push(value)
+}
+
+function applyEvent(state: LocalState, event: AnalyticsEvent): void {
+  for (const day of Object.keys(state)) if (day < oldestKeptDay()) delete state[day]
+
+  const day = (state[event.at.slice(0, 10)] ??= {
+    pageviews: 0,
+    clicks: 0,
+    visitors: [],
+    paths: {},
+    targets: {},
+    discord: [],
+    core: [],
+  })
+  addTo(day.visitors, event.visitor)
+  if (event.type === 'pageview') {
+    day.pageviews += 1
+    day.paths[event.path] = (day.paths[event.path] ?? 0) + 1
+    return
+  }
+
+  day.clicks += 1
+  if (!event.target) return
+  const target = (day.targets[event.target] ??= { clicks: 0, visitors: [] })
+  target.clicks += 1
+  addTo(target.visitors, event.visitor)
+  const step = funnelStep(event.target)
+  if (step) addTo(day[step], event.visitor)
+}
+
+function readLocal(state: LocalState, since: Date, until: Date): DayStats[] {
+  return utcDays(since, until).flatMap(day => {
+    const local = state[day]
+    if (!local) return []
+    return [
+      {
+        day,
+        pageviews: local.pageviews,
+        clicks: local.clicks,
+        visitors: local.visitors.length,
+        paths: local.paths,
+        targets: Object.fromEntries(
+          Object.entries(local.targets).map(([target, t]) => [target, { clicks: t.clicks, visitors: t.visitors.length }]),
+        ),
+        discordVisitors: local.discord.length,
+        coreAfterDiscord: local.discord.filter(v => local.core.includes(v)).length,
+      },
+    ]
+  })
+}
+
+export function createMemoryAnalyticsStore(): AnalyticsStore {
+  const state: LocalState = {}
+
+  return {
+    dailySalt: processSalt(),
+    async record(event) {
+      applyEvent(state, event)
+    },
+    async days(since, until) {
+      return readLocal(state, since, until)
+    },
+  }
+}
+
+/** One JSON document, rewritten on every event. Dev only. */
+export function createFileAnalyticsStore(filePath: string): AnalyticsStore {
+  // Serializes read-modify-write cycles within this process.
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function load(): Promise<LocalState> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as LocalState
+    } catch (err) {
+      // Missing, or torn by a crashed dev server — start over.
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT' || err instanceof SyntaxError) return {}
+      throw err
+    }
+  }
+
+  return {
+    dailySalt: processSalt(),
+    record(event) {
+      const write = queue.then(async () => {
+        const state = await load()
+        applyEvent(state, event)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, JSON.stringify(state))
+      })
+      queue = write.catch(() => {})
+      return write
+    },
+    async days(since, until) {
+      return readLocal(await load(), since, until)
+    },
+  }
+}
+
+/**
+ * Per UTC day, all expiring with the retention window:
+ *
+ *   <prefix>:<day>                 hash of counters: pageviews, clicks,
+ *                                  path:<path>, target:<id>, target-visitors:<id>
+ *   <prefix>:<day>:visitors        HyperLogLog of visitor hashes
+ *   <prefix>:<day>:target-visitors set of "<target> <visitor>" pairs, so a
+ *                                  target's visitor counter only moves once
+ *                                  per visitor
+ *   <prefix>:<day>:discord / :core sets of visitors who clicked a funnel step
+ *
+ * The first instance to ask for a day's salt picks it (`SET … NX`); the
+ * rest read that one back.
+ */
+export function createKvAnalyticsStore(prefix = 'analytics'): AnalyticsStore {
+  const ttl = (ANALYTICS_RETENTION_DAYS + 1) * 24 * 60 * 60
+  let salt: { day: string; value: string } | null = null
+
+  return {
+    async dailySalt(day) {
+      if (salt?.day === day) return salt.value
+      const saltKey = `${prefix}:salt:${day}`
+      const [, value] = await kvPipeline<[unknown, string]>([
+        ['SET', saltKey, newSalt(), 'NX', 'EX', SALT_TTL_S],
+        ['GET', saltKey],
+      ])
+      salt = { day, value }
+      return value
+    },
+    async record(event) {
+      const key = `${prefix}:${event.at.slice(0, 10)}`
+      const written = [key, `${key}:visitors`]
+      const commands: (string | number)[][] = [['PFADD', `${key}:visitors`, event.visitor]]
+      let pairAdded = -1
+
+      if (event.type === 'pageview') {
+        commands.push(['HINCRBY', key, 'pageviews', 1], ['HINCRBY', key, `path:${event.path}`, 1])
+      } else {
+        commands.push(['HINCRBY', key, 'clicks', 1])
+        if (event.target) {
+          const step = funnelStep(event.target)
+          if (step) {
+            commands.push(['SADD', `${key}:${step}`, event.visitor])
+            written.push(`${key}:${step}`)
+          }
+          commands.push(['HINCRBY', key, `target:${event.target}`, 1])
+          pairAdded = commands.push(['SADD', `${key}:target-visitors`, `${event.target} ${event.visitor}`]) - 1
+          written.push(`${key}:target-visitors`)
+        }
+      }
+
+      // After the writes: EXPIRE on a key that doesn't exist yet is a no-op.
+      const replies = await kvPipeline<unknown[]>([...commands, ...written.map(k => ['EXPIRE', k, ttl])])
+      if (event.target && replies[pairAdded] === 1) {
+        await kvPipeline([['HINCRBY', key, `target-visitors:${event.target}`, 1]])
+      }
+    },
+    async days(since, until) {
+      const days = utcDays(since, until)
+      const replies = await kvPipeline<unknown[]>(
+        days.flatMap(day => {
+          const key = `${prefix}:${day}`
+          return [
+            ['HGETALL', key],
+            ['PFCOUNT', `${key}:visitors`],
+            ['SCARD', `${key}:discord`],
+            ['SINTER', `${key}:discord`, `${key}:core`],
+          ]
+        }),
+      )
+
+      return days.flatMap((day, i) => {
+        // The REST API returns HGETALL as a flat [field, value, …] list.
+        const flat = (replies[i * 4] ?? []) as string[]
+        if (flat.length === 0) return []
+        const stats: DayStats = {
+          day,
+          pageviews: 0,
+          clicks: 0,
+          visitors: Number(replies[i * 4 + 1]),
+          paths: {},
+          targets: {},
+          discordVisitors: Number(replies[i * 4 + 2]),
+          coreAfterDiscord: (replies[i * 4 + 3] as string[]).length,
+        }
+        for (let j = 0; j < flat.length; j += 2) {
+          const field = flat[j]
+          const value = Number(flat[j + 1])
+          const split = field.indexOf(':')
+          const [kind, name] = split === -1 ? [field, ''] : [field.slice(0, split), field.slice(split + 1)]
+          if (kind === 'pageviews') stats.pageviews = value
+          else if (kind === 'clicks') stats.clicks = value
+          else if (kind === 'path') stats.paths[name] = value
+          else if (kind === 'target') (stats.targets[name] ??= { clicks: 0, visitors: 0 }).clicks = value
+          else if (kind === 'target-visitors') (stats.targets[name] ??= { clicks: 0, visitors: 0 }).visitors = value
+        }
+        return [stats]
+      })
+    },
+  }
+}
+
+let store: AnalyticsStore | null = null
+
+/**
+ * Backend is picked by ANALYTICS_STORE ('kv' | 'file' | 'memory'), with the
+ * defaults from resolveStoreBackend: file under `next dev`, KV everywhere
+ * else. Without a durable backend this throws on first use, so /api/events
+ * fails in the logs instead of counting into one instance's memory.
+ */
+export function getAnalyticsStore(): AnalyticsStore {
+  if (store) return store
+
+  const backend = resolveStoreBackend(process.env.ANALYTICS_STORE, 'ANALYTICS_STORE')
+
+  store =
+    backend === 'kv'
+      ? createKvAnalyticsStore()
+      : backend === 'file'
+        ? createFileAnalyticsStore(
+            process.env.ANALYTICS_FILE ?? path.join(process.cwd(), '.data', 'analytics.json'),
+          )
+        : createMemoryAnalyticsStore()
+
+  return store
+}
@@ -0,0 +1,28 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+// Visitors are counted without cookies by hashing IP + user agent with a
+// salt that's random per UTC day. The analytics store hands out one salt
+// per day to every instance (see ./store), so a visitor hashes the same
+// wherever their requests land, and lets it expire two days later: once
+// it's gone, stored hashes can't be linked across days or reversed back to
+// an IP. Unique-visitor counts are per day for the same reason.
+
+/** How long a day's salt is kept: its own day plus a margin for clock skew. */
+export const SALT_TTL_S = 2 * 24 * 60 * 60
+
+export function utcDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10)
+}
+
+export function newSalt(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function visitorHash(salt: string, ip: string, userAgent: string): string {
+  return createHash('sha256').update(salt).update(ip).update('\0').update(userAgent).digest('hex').slice(0, 16)
+}
+
+/** Do-Not-Track or Global Privacy Control. */
+export function prefersNoTracking(headers: Headers): boolean {
+  return headers.get('dnt') === '1' || headers.get('sec-gpc') === '1'
+}
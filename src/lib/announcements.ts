@@ -0,0 +1,165 @@
+import type { Locale } from './i18n/locales'
+import { getMessages, type Messages } from './i18n/messages'
+
+// Site-wide announcements, rendered as banners by the root layout. Two
+// sources, merged by id:
+//
+//   1. LOCAL_ANNOUNCEMENTS below — shipped with the site, with their copy
+//      in the message catalogs under announcements.local.<id>.
+//   2. An optional JSON feed at CORE_ANNOUNCEMENTS_URL, hosted by Core, so
+//      a maintenance window can be posted without a deploy. Remote entries
+//      replace local ones with the same id and are shown as Core wrote
+//      them, untranslated.
+//
+// Feed format: `{ "announcements": Announcement[] }` (or a bare array).
+// Invalid entries are dropped individually; a failed fetch falls back to
+// the local list. `npm run mock:upstream` serves a sample feed.
+
+export type AnnouncementSeverity = 'info' | 'warning' | 'critical'
+
+export interface Announcement {
+  /** Stable id — dismissals are remembered per id, so reuse one only for the same notice. */
+  id: string
+  severity: AnnouncementSeverity
+  message: string
+  /** ISO 8601; shown from this instant on. Omit to show immediately. */
+  startsAt?: string
+  /** ISO 8601; hidden from this instant on. Omit to show until removed. */
+  endsAt?: string
+  /** Critical notices should usually stay put. */
+  dismissible: boolean
+  link?: { href: string; label: string }
+}
+
+type LocalAnnouncementId = keyof Messages['announcements']['local']
+
+export interface LocalAnnouncement extends Omit<Announcement, 'id' | 'message' | 'link'> {
+  id: LocalAnnouncementId
+  link?: { href: string }
+}
+
+export const LOCAL_ANNOUNCEMENTS: readonly LocalAnnouncement[] = [
+  {
+    id: 'core-ovh-migration',
+    severity: 'warning',
+    dismissible: true,
+    link: { href: '/status' },
+  },
+]
+
+function localAnnouncements(locale: Locale): Announcement[] {
+  const copy = getMessages(locale).announcements.local
+  return LOCAL_ANNOUNCEMENTS.map(({ link, ...announcement }) => ({
+    ...announcement,
+    message: copy[announcement.id].message,
+    ...(link && { link: { href: link.href, label: copy[announcement.id].link } }),
+  }))
+}
+
+// How often the remote feed is re-read.
+const REMOTE_REVALIDATE_S = 60
+
+const SEVERITIES = new Set<AnnouncementSeverity>(['info', 'warning', 'critical'])
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+}
+
+// Internal paths or https URLs only — the feed shouldn't be able to inject
+// javascript: links into every page.
+function isSafeHref(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  if (value.startsWith('/') && !value.startsWith('//')) return true
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/** Validates one feed entry; null if it's unusable. */
+export function parseAnnouncement(input: unknown): Announcement | null {
+  if (typeof input !== 'object' || input === null) return null
+  const entry = input as Record<string, unknown>
+
+  if (typeof entry.id !== 'string' || !ID_PATTERN.test(entry.id)) return null
+  if (!SEVERITIES.has(entry.severity as AnnouncementSeverity)) return null
+  if (typeof entry.message !== 'string' || !entry.message.trim()) return null
+  if (entry.startsAt !== undefined && !isDate(entry.startsAt)) return null
+  if (entry.endsAt !== undefined && !isDate(entry.endsAt)) return null
+
+  let link: Announcement['link']
+  if (entry.link !== undefined) {
+    const { href, label } = (entry.link ?? {}) as Record<string, unknown>
+    if (!isSafeHref(href) || typeof label !== 'string' || !label.trim()) return null
+    link = { href, label }
+  }
+
+  return {
+    id: entry.id,
+    severity: entry.severity as AnnouncementSeverity,
+    message: entry.message.trim(),
+    ...(entry.startsAt !== undefined && { startsAt: entry.startsAt as string }),
+    ...(entry.endsAt !== undefined && { endsAt: entry.endsAt as string }),
+    dismissible: entry.dismissible !== false,
+    ...(link && { link }),
+  }
+}
+
+async function remoteAnnouncements(): Promise<Announcement[]> {
+  const url = process.env.CORE_ANNOUNCEMENTS_URL
+  if (!url) return []
+
+  try {
+    const res = await fetch(url, {
+      signal: AbortSignal.timeout(3000),
+      next: { revalidate: REMOTE_REVALIDATE_S },
+    })
+    if (!res.ok) return []
+    const body: unknown = await res.json()
+    const entries = Array.isArray(body) ? body : (body as { announcements?: unknown } | null)?.announcements
+    if (!Array.isArray(entries)) return []
+
+    const announcements: Announcement[] = []
+    for (const entry of entries) {
+      const announcement = parseAnnouncement(entry)
+      if (announcement) announcements.push(announcement)
+      else console.warn('[announcements] dropping invalid feed entry', entry)
+    }
+    return announcements
+  } catch (err) {
+    console.error('[announcements] failed to load remote announcements', err)
+    return []
+  }
+}
+
+export function isActive(announcement: Announcement, now: Date): boolean {
+  const time = now.getTime()
+  if (announcement.startsAt && Date.parse(announcement.startsAt) > time) return false
+  if (announcement.endsAt && Date.parse(announcement.endsAt) <= time) return false
+  return true
+}
+
+const SEVERITY_ORDER: Record<AnnouncementSeverity, number> = { critical: 0, warning: 1, info: 2 }
+
+/** Announcements live right now, most severe first. Server-only. */
+export async function getActiveAnnouncements(locale: Locale, now = new Date()): Promise<Announcement[]> {
+  const byId = new Map(localAnnouncements(locale).map(a => [a.id, a]))
+  for (const announcement of await remoteAnnouncements()) byId.set(announcement.id, announcement)
+
+  return [...byId.values()]
+    .filter(a => isActive(a, now))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+}
+
+// Dismissals live in a cookie rather than localStorage so the server can
+// leave dismissed banners out of the HTML instead of flashing them.
+export const DISMISSED_COOKIE = 'cfg-dismissed-announcements'
+
+// Cookies are capped around 4 KB; the oldest dismissals fall off first.
+export const MAX_DISMISSED = 50
+
+export function parseDismissed(cookie: string | undefined): Set<string> {
+  return new Set((cookie ?? '').split('.').filter(id => ID_PATTERN.test(id)))
+}
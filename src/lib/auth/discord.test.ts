@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { decodeOAuthState, encodeOAuthState, safeReturnTo } from './discord'
+
+describe('safeReturnTo', () => {
+  it.each([
+    ['/account', '/account'],
+    ['/', '/'],
+    ['/pricing?plan=pro#faq', '/pricing?plan=pro#faq'],
+    ['/es/pricing', '/es/pricing'],
+    ['/journal/../account', '/account'],
+  ])('keeps same-site path %j', (input, expected) => {
+    expect(safeReturnTo(input)).toBe(expected)
+  })
+
+  it.each([
+    [null],
+    [undefined],
+    [''],
+    ['account'],
+    ['https://evil.com/'],
+    ['//evil.com'],
+    ['/\\evil.com'],
+    ['\\\\evil.com'],
+    ['/\t/evil.com'],
+    ['/\n/evil.com'],
+    ['/\r\n/evil.com'],
+    ['javascript:alert(1)'],
+  ])('falls back to /account for %j', input => {
+    expect(safeReturnTo(input)).toBe('/account')
+  })
+
+  it('never yields anything the callback would resolve off-site', () => {
+    const origin = 'https://www.crit-fumble.com'
+    for (const input of ['/%09/evil.com', '/\t/evil.com', '/ /evil.com', '/\\/evil.com', '/\u0000//evil.com']) {
+      const decoded = decodeURIComponent(input)
+      expect(new URL(safeReturnTo(decoded), origin).origin).toBe(origin)
+    }
+  })
+})
+
+describe('OAuth state cookie', () => {
+  it('round-trips the nonce and return path', () => {
+    expect(decodeOAuthState(encodeOAuthState('abc123', '/pricing?plan=pro'))).toEqual({
+      state: 'abc123',
+      returnTo: '/pricing?plan=pro',
+    })
+  })
+
+  it.each([[undefined], [''], ['no-separator'], [':/account'], ['abc:%E0%A4%A']])('rejects %j', value => {
+    expect(decodeOAuthState(value)).toBeNull()
+  })
+
+  it('re-checks the return path, so an edited cookie cannot redirect off-site', () => {
+    expect(decodeOAuthState(`abc:${encodeURIComponent('/\t/evil.com')}`)).toEqual({ state: 'abc', returnTo: '/account' })
+    expect(decodeOAuthState('abc:%2F%2Fevil.com')).toEqual({ state: 'abc', returnTo: '/account' })
+  })
+})
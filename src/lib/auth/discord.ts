@@ -0,0 +1,201 @@
+import { getDiscordInviteStats } from '../discord/invite'
+import { DISCORD_API_URL, DISCORD_AUTHORIZE_URL } from '../discord/oauth'
+import { hasSessionSecret, SESSION_MAX_AGE_S, type Session, type SessionUser } from './session'
+
+// "Sign in with Discord" for www: the authorization-code flow against a
+// Discord application configured in env. Authorize, token and API URLs all
+// come from lib/discord/oauth, so `npm run mock:upstream` can stand in for
+// Discord end to end.
+
+// identify: who they are. guilds.members.read: whether they've joined our
+// server, without listing every other server they're in.
+export const SIGN_IN_SCOPES = ['identify', 'guilds.members.read'] as const
+
+export const OAUTH_STATE_COOKIE = 'cfg-oauth-state'
+
+/** How long a visitor has to finish Discord's consent screen. */
+export const OAUTH_STATE_MAX_AGE_S = 10 * 60
+
+export class DiscordAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DiscordAuthError'
+  }
+}
+
+export type SignInError = 'denied' | 'expired' | 'failed'
+
+/** Copy for the ?error= codes the callback redirects to /account with. */
+export const SIGN_IN_ERROR_MESSAGES: Record<SignInError, string> = {
+  denied: 'Sign-in was cancelled on Discord.',
+  expired: 'That sign-in link expired or was already used. Please try again.',
+  failed: "We couldn't reach Discord to finish signing you in. Please try again.",
+}
+
+function clientCredentials(): { clientId: string; clientSecret: string } | null {
+  const clientId = process.env.DISCORD_CLIENT_ID
+  const clientSecret = process.env.DISCORD_CLIENT_SECRET
+  return clientId && clientSecret ? { clientId, clientSecret } : null
+}
+
+/** Sign-in needs the Discord app credentials and a session secret. Unset = sign-in disabled. */
+export function isSignInEnabled(): boolean {
+  return clientCredentials() !== null && hasSessionSecret()
+}
+
+const DEFAULT_RETURN_TO = '/account'
+
+// Stand-in origin for resolving returnTo; never fetched or redirected to.
+const RETURN_TO_BASE = 'https://www.invalid'
+
+/**
+ * Where to land after sign-in. Only same-site paths are honoured — an
+ * absolute or protocol-relative URL here would make sign-in an open
+ * redirect. The value is resolved the way the callback will resolve it, so
+ * tricks the URL parser undoes (tabs or newlines inside `//`, backslashes)
+ * can't smuggle in another host; what's returned is rebuilt from the parsed
+ * path, query and fragment.
+ */
+export function safeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/')) return DEFAULT_RETURN_TO
+  let url: URL
+  try {
+    url = new URL(value, RETURN_TO_BASE)
+  } catch {
+    return DEFAULT_RETURN_TO
+  }
+  if (url.origin !== RETURN_TO_BASE) return DEFAULT_RETURN_TO
+  return `${url.pathname}${url.search}${url.hash}`
+}
+
+/** State cookie value: the CSRF nonce Discord echoes back, plus where to return to. */
+export function encodeOAuthState(state: string, returnTo: string): string {
+  return `${state}:${encodeURIComponent(returnTo)}`
+}
+
+export function decodeOAuthState(value: string | undefined): { state: string; returnTo: string } | null {
+  const separator = value?.indexOf(':') ?? -1
+  if (!value || separator <= 0) return null
+  try {
+    return { state: value.slice(0, separator), returnTo: safeReturnTo(decodeURIComponent(value.slice(separator + 1))) }
+  } catch {
+    return null
+  }
+}
+
+/** Discord's consent-screen URL for this sign-in attempt. */
+export function buildSignInUrl({ redirectUri, state }: { redirectUri: string; state: string }): string {
+  const credentials = clientCredentials()
+  if (!credentials) throw new DiscordAuthError('Discord sign-in is not configured')
+  const url = new URL(DISCORD_AUTHORIZE_URL)
+  url.searchParams.set('client_id', credentials.clientId)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('redirect_uri', redirectUri)
+  url.searchParams.set('scope', SIGN_IN_SCOPES.join(' '))
+  url.searchParams.set('state', state)
+  return url.toString()
+}
+
+interface TokenResponse {
+  access_token?: string
+  token_type?: string
+  expires_in?: number
+}
+
+interface UserResponse {
+  id?: string
+  username?: string
+  global_name?: string | null
+  avatar?: string | null
+}
+
+async function discordFetch(path: string, init: RequestInit): Promise<Response> {
+  return fetch(`${DISCORD_API_URL}${path}`, {
+    ...init,
+    cache: 'no-store',
+    signal: AbortSignal.timeout(5000),
+  })
+}
+
+/**
+ * Trades the callback's code for an access token and the user behind it.
+ * Throws DiscordAuthError on any upstream failure; the callback route turns
+ * that into a "try again" message rather than a 500.
+ */
+export async function completeSignIn({ code, redirectUri }: { code: string; redirectUri: string }): Promise<Session> {
+  const credentials = clientCredentials()
+  if (!credentials) throw new DiscordAuthError('Discord sign-in is not configured')
+
+  const tokenRes = await discordFetch('/oauth2/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+    }),
+  })
+  if (!tokenRes.ok) throw new DiscordAuthError(`token exchange failed (${tokenRes.status})`)
+  const token: TokenResponse = await tokenRes.json()
+  if (!token.access_token || token.token_type?.toLowerCase() !== 'bearer') {
+    throw new DiscordAuthError('token exchange returned no bearer token')
+  }
+
+  const userRes = await discordFetch('/users/@me', {
+    headers: { Authorization: `Bearer ${token.access_token}` },
+  })
+  if (!userRes.ok) throw new DiscordAuthError(`user lookup failed (${userRes.status})`)
+  const data: UserResponse = await userRes.json()
+  if (!data.id || !data.username) throw new DiscordAuthError('user lookup returned no user')
+
+  const user: SessionUser = {
+    id: data.id,
+    username: data.username,
+    globalName: data.global_name ?? null,
+    avatar: data.avatar ?? null,
+  }
+  const lifetimeS = Math.min(token.expires_in ?? SESSION_MAX_AGE_S, SESSION_MAX_AGE_S)
+  return { user, accessToken: token.access_token, expiresAt: Date.now() + lifetimeS * 1000 }
+}
+
+/**
+ * Our guild's ID: DISCORD_GUILD_ID when set, otherwise whatever guild the
+ * public invite resolves to (the same lookup the homepage stats use).
+ */
+async function communityGuildId(): Promise<string | null> {
+  return process.env.DISCORD_GUILD_ID ?? (await getDiscordInviteStats())?.guildId ?? null
+}
+
+/**
+ * Whether the signed-in user has joined our Discord server. null when it
+ * can't be determined right now (Discord down, guild unknown) so the page
+ * can say so instead of wrongly telling a member to join.
+ */
+export async function isCommunityMember(session: Session): Promise<boolean | null> {
+  const guildId = await communityGuildId()
+  if (!guildId) return null
+  try {
+    const res = await discordFetch(`/users/@me/guilds/${encodeURIComponent(guildId)}/member`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    })
+    if (res.ok) return true
+    // Discord answers "Unknown Guild" (404) when the user isn't in it.
+    if (res.status === 404) return false
+    return null
+  } catch {
+    return null
+  }
+}
+
+/** Display name and avatar URL for the header of the account card. */
+export function displayUser(user: SessionUser): { name: string; avatarUrl: string } {
+  const name = user.globalName || user.username
+  if (user.avatar) {
+    return { name, avatarUrl: `https://cdn.discordapp.com/avatars/${user.id}/${user.avatar}.png?size=128` }
+  }
+  // Discord's default avatars are indexed by (id >> 22) % 6 for new usernames.
+  const index = /^\d+$/.test(user.id) ? Number((BigInt(user.id) >> BigInt(22)) % BigInt(6)) : 0
+  return { name, avatarUrl: `https://cdn.discordapp.com/embed/avatars/${index}.png` }
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { hasSessionSecret, type Session, sealSession, unsealSession } from './session'
+
+const SECRET = 'a'.repeat(32)
+const NOW = Date.UTC(2026, 9, 1)
+
+const session: Session = {
+  user: { id: '123', username: 'gm', globalName: 'The GM', avatar: null },
+  accessToken: 'discord-token',
+  expiresAt: NOW + 60 * 60 * 1000,
+}
+
+// Flips one character of a base64url segment without changing its length.
+function tamper(sealed: string, part: number): string {
+  const parts = sealed.split('.')
+  const chars = [...parts[part]]
+  chars[0] = chars[0] === 'A' ? 'B' : 'A'
+  parts[part] = chars.join('')
+  return parts.join('.')
+}
+
+describe('sealSession / unsealSession', () => {
+  beforeEach(() => {
+    vi.stubEnv('SESSION_SECRET', SECRET)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('round-trips a session', () => {
+    expect(unsealSession(sealSession(session), NOW)).toEqual(session)
+  })
+
+  it('uses a fresh IV every time', () => {
+    expect(sealSession(session)).not.toBe(sealSession(session))
+  })
+
+  it.each([
+    ['iv', 0],
+    ['auth tag', 1],
+    ['ciphertext', 2],
+  ])('rejects a tampered %s', (_, part) => {
+    expect(unsealSession(tamper(sealSession(session), part), NOW)).toBeNull()
+  })
+
+  it.each([[undefined], [''], ['one.two'], ['a.b.c.d'], ['not.base64.!!']])('rejects malformed %j', value => {
+    expect(unsealSession(value, NOW)).toBeNull()
+  })
+
+  it('rejects a session sealed under another secret', () => {
+    const sealed = sealSession(session)
+    vi.stubEnv('SESSION_SECRET', 'b'.repeat(32))
+    expect(unsealSession(sealed, NOW)).toBeNull()
+  })
+
+  it('rejects a session at or past its expiry', () => {
+    const sealed = sealSession(session)
+    expect(unsealSession(sealed, session.expiresAt - 1)).toEqual(session)
+    expect(unsealSession(sealed, session.expiresAt)).toBeNull()
+  })
+
+  it('treats a missing or short secret as sign-in disabled', () => {
+    vi.stubEnv('SESSION_SECRET', 'short')
+    expect(hasSessionSecret()).toBe(false)
+    expect(() => sealSession(session)).toThrow(/SESSION_SECRET/)
+    expect(unsealSession('a.b.c', NOW)).toBeNull()
+  })
+})
@@ -0,0 +1,104 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto'
+import { cookies } from 'next/headers'
+
+// Signed-in visitor state, kept entirely in an encrypted cookie — www has
+// no user database. AES-256-GCM both hides the Discord access token from
+// the browser and makes any tampering fail decryption.
+
+export const SESSION_COOKIE = 'cfg-session'
+
+/** Upper bound; the cookie also never outlives the Discord access token. */
+export const SESSION_MAX_AGE_S = 7 * 24 * 60 * 60
+
+// Anything shorter is too easy to brute-force offline from a captured cookie.
+const MIN_SECRET_LENGTH = 32
+
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+export interface SessionUser {
+  id: string
+  username: string
+  /** Discord display name, when the user has set one. */
+  globalName: string | null
+  /** Avatar hash for cdn.discordapp.com, or null for the default avatar. */
+  avatar: string | null
+}
+
+export interface Session {
+  user: SessionUser
+  accessToken: string
+  /** Epoch milliseconds. */
+  expiresAt: number
+}
+
+function sessionKey(): Buffer | null {
+  const secret = process.env.SESSION_SECRET
+  if (!secret || secret.length < MIN_SECRET_LENGTH) return null
+  return createHash('sha256').update(secret).digest()
+}
+
+/** Whether SESSION_SECRET is set and long enough to encrypt sessions with. */
+export function hasSessionSecret(): boolean {
+  return sessionKey() !== null
+}
+
+/** `iv.tag.ciphertext`, each base64url. The cookie name is bound in as AAD. */
+export function sealSession(session: Session): string {
+  const key = sessionKey()
+  if (!key) throw new Error('SESSION_SECRET must be set (at least 32 characters) to create sessions')
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: TAG_BYTES })
+  cipher.setAAD(Buffer.from(SESSION_COOKIE))
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+}
+
+function isSession(value: unknown): value is Session {
+  if (typeof value !== 'object' || value === null) return false
+  const { user, accessToken, expiresAt } = value as Record<string, unknown>
+  if (typeof accessToken !== 'string' || typeof expiresAt !== 'number') return false
+  if (typeof user !== 'object' || user === null) return false
+  const { id, username } = user as Record<string, unknown>
+  return typeof id === 'string' && typeof username === 'string'
+}
+
+/**
+ * Decrypts a cookie value. Anything malformed, tampered with, sealed under
+ * a different secret or past its expiry reads as signed out.
+ */
+export function unsealSession(value: string | undefined, now = Date.now()): Session | null {
+  const key = sessionKey()
+  if (!key || !value) return null
+  const parts = value.split('.')
+  if (parts.length !== 3) return null
+
+  try {
+    const [iv, tag, ciphertext] = parts.map(part => Buffer.from(part, 'base64url'))
+    if (iv.length !== IV_BYTES || tag.length !== TAG_BYTES) return null
+    const decipher = createDecipheriv('aes-256-gcm', key, iv, { authTagLength: TAG_BYTES })
+    decipher.setAAD(Buffer.from(SESSION_COOKIE))
+    decipher.setAuthTag(tag)
+    const json = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+    const session: unknown = JSON.parse(json)
+    return isSession(session) && session.expiresAt > now ? session : null
+  } catch {
+    return null
+  }
+}
+
+/** Cookie attributes shared by setting and clearing the session. */
+export function sessionCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  }
+}
+
+/** The current visitor's session, for server components. */
+export async function getSession(): Promise<Session | null> {
+  return unsealSession((await cookies()).get(SESSION_COOKIE)?.value)
+}
@@ -0,0 +1,379 @@
+import path from 'path'
+import en from '../../../content/home/en.json'
+import es from '../../../content/home/es.json'
+import pt from '../../../content/home/pt.json'
+import { DISCORD_INVITE_URL } from '../discord/invite'
+import { CT_PER_CC, formatAmount, FREE_MONTHLY_CT, USD_PER_SC } from '../economy'
+import { type FeatureFlag, FEATURE_FLAG_NAMES } from '../flags'
+import { DEFAULT_LOCALE, hrefLocale, type Locale, localePath, LOCALES } from '../i18n/locales'
+import { translationProblems } from '../i18n/messages'
+import { fileExistsIfCheckable, isKnownRoute } from '../routes'
+import { CORE_WALLET_URL, GITHUB_ORG_URL } from '../site'
+
+// Homepage copy, links and images live in content/home/<locale>.json so
+// they can be edited without touching JSX. This module is the schema for
+// those files: it validates every field when first imported — which
+// `next build` does — and reports every problem at once, with its JSON path.
+//
+// en.json is the original. Translations must have exactly its keys and
+// {placeholders} (see lib/i18n/messages); internal links are rewritten to
+// the reader's locale where the target page is translated.
+//
+// Copy and hrefs may use {placeholders} for values owned by code, so the
+// prose can't drift from the numbers:
+//
+//   {freeMonthlyCt} {ctPerCc} {usdPerSc}    economy rates (lib/economy)
+//   {discordInviteUrl} {githubOrgUrl}        canonical community links
+
+function textVariables(locale: Locale): Record<string, string> {
+  return {
+    freeMonthlyCt: formatAmount(FREE_MONTHLY_CT, 'CT', locale),
+    ctPerCc: formatAmount(CT_PER_CC, 'CT', locale),
+    usdPerSc: formatAmount(USD_PER_SC, 'USD', locale),
+  }
+}
+
+const URL_VARIABLES: Record<string, string> = {
+  coreWalletUrl: CORE_WALLET_URL,
+  discordInviteUrl: DISCORD_INVITE_URL,
+  githubOrgUrl: GITHUB_ORG_URL,
+}
+
+export type IconName = 'discord' | 'github' | 'compute-tokens' | 'story-credit'
+
+const ICON_NAMES: readonly IconName[] = ['discord', 'github', 'compute-tokens', 'story-credit']
+
+export interface ContentImage {
+  /** Under /public ("/img/…") or an https URL. */
+  src: string
+  /** Empty for decorative images. */
+  alt: string
+  width: number
+  height: number
+}
+
+export interface ContentLink {
+  label: string
+  /** Internal path ("/schedule") or https URL. */
+  href: string
+  /** Analytics key (see lib/analytics) — keep stable once live. */
+  testId?: string
+  newTab?: boolean
+  /** Only rendered while this feature flag is on (see lib/flags). */
+  flag?: FeatureFlag
+  /** Set when an internal link leads to a page in another language. */
+  hrefLang?: Locale
+}
+
+export interface ContentBadge {
+  href: string
+  /** Accessible name for the link. */
+  label: string
+  image: ContentImage
+  testId?: string
+  /** Marks paid/affiliate links as rel="sponsored". */
+  sponsored?: boolean
+  flag?: FeatureFlag
+}
+
+export interface EconomyCardContent {
+  heading: string
+  icon: IconName | ContentImage
+  body: string
+  cta?: ContentLink
+}
+
+export interface SocialLink {
+  icon: IconName
+  label: string
+  href: string
+  testId?: string
+}
+
+export interface HomeContent {
+  hero: { logo: ContentImage; title: string; tagline: string; intro: string[] }
+  discord: { heading: string; lead: string; body: string; cta: ContentLink }
+  /** Welcome card, shown only to visitors signed in with Discord. */
+  account: { heading: string; link: ContentLink }
+  sessions: { heading: string; link: ContentLink }
+  resesh: {
+    heading: string
+    icon: ContentImage
+    lead: string
+    body: string
+    badge?: ContentBadge
+    demoLink?: ContentLink
+    cta?: ContentLink
+  }
+  core: { heading: string; lead: string; body: string; affiliateBadge?: ContentBadge }
+  economy: { heading: string; cards: EconomyCardContent[] }
+  dice: { heading: string }
+  calculator: { heading: string }
+  footer: { social: SocialLink[]; links: ContentLink[]; copyright: string }
+}
+
+export class ContentError extends Error {
+  constructor(file: string, problems: string[]) {
+    super(`${file} has ${problems.length} problem${problems.length === 1 ? '' : 's'}:\n  - ${problems.join('\n  - ')}`)
+    this.name = 'ContentError'
+  }
+}
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public')
+const TEST_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+type Json = Record<string, unknown>
+
+/** Collects problems instead of stopping at the first, so one build run shows them all. */
+class Reader {
+  readonly problems: string[] = []
+  private readonly failed = new Set<string>()
+  private readonly textVariables: Record<string, string>
+
+  constructor(private readonly locale: Locale) {
+    this.textVariables = textVariables(locale)
+  }
+
+  /** First problem per path wins, so a missing field isn't also reported as the wrong type. */
+  fail(at: string, problem: string) {
+    if (this.failed.has(at)) return
+    this.failed.add(at)
+    this.problems.push(`${at}: ${problem}`)
+  }
+
+  object(value: unknown, at: string): Json {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value as Json
+    this.fail(at, 'expected an object')
+    return {}
+  }
+
+  /** An object with exactly these keys allowed — catches typos like "lable". */
+  fields(value: unknown, at: string, required: string[], optional: string[] = []): Json {
+    const obj = this.object(value, at)
+    for (const key of required) if (obj[key] === undefined) this.fail(`${at}.${key}`, 'is required')
+    for (const key of Object.keys(obj)) {
+      if (!required.includes(key) && !optional.includes(key)) this.fail(`${at}.${key}`, 'is not a known field')
+    }
+    return obj
+  }
+
+  array(value: unknown, at: string): unknown[] {
+    if (Array.isArray(value)) return value
+    this.fail(at, 'expected a list')
+    return []
+  }
+
+  private interpolate(value: string, at: string, variables: Record<string, string>): string {
+    return value.replace(/\{([A-Za-z]+)\}/g, (placeholder, name: string) => {
+      if (name in variables) return variables[name]
+      this.fail(at, `unknown placeholder ${placeholder} (known: ${Object.keys(variables).join(', ')})`)
+      return placeholder
+    })
+  }
+
+  text(value: unknown, at: string, { allowEmpty = false } = {}): string {
+    if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+      this.fail(at, allowEmpty ? 'expected text' : 'expected non-empty text')
+      return ''
+    }
+    return this.interpolate(value.trim(), at, this.textVariables)
+  }
+
+  optionalText(value: unknown, at: string): string | undefined {
+    return value === undefined ? undefined : this.text(value, at)
+  }
+
+  number(value: unknown, at: string): number {
+    if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value
+    this.fail(at, 'expected a positive whole number')
+    return 1
+  }
+
+  boolean(value: unknown, at: string): boolean | undefined {
+    if (value === undefined || typeof value === 'boolean') return value
+    this.fail(at, 'expected true or false')
+    return undefined
+  }
+
+  href(value: unknown, at: string): string {
+    if (typeof value !== 'string' || !value) {
+      this.fail(at, 'expected a link')
+      return '#'
+    }
+    const href = this.interpolate(value, at, URL_VARIABLES)
+    if (href.startsWith('/') && !href.startsWith('//')) {
+      if (!isKnownRoute(href)) this.fail(at, `"${href}" is not a page on this site (see src/lib/routes.ts)`)
+      return localePath(this.locale, href)
+    }
+    try {
+      if (new URL(href).protocol === 'https:') return href
+    } catch {
+      // Reported below.
+    }
+    this.fail(at, `"${href}" must be an internal path ("/…") or an https:// URL`)
+    return href
+  }
+
+  image(value: unknown, at: string): ContentImage {
+    const obj = this.fields(value, at, ['src', 'alt', 'width', 'height'])
+    const src = typeof obj.src === 'string' ? obj.src : ''
+    if (src.startsWith('/')) {
+      if (!fileExistsIfCheckable(PUBLIC_DIR, src)) this.fail(`${at}.src`, `"${src}" is not a file in public/`)
+    } else if (!src.startsWith('https://')) {
+      this.fail(`${at}.src`, 'must be a path under public/ ("/img/…") or an https:// URL')
+    }
+    return {
+      src,
+      alt: this.text(obj.alt, `${at}.alt`, { allowEmpty: true }),
+      width: this.number(obj.width, `${at}.width`),
+      height: this.number(obj.height, `${at}.height`),
+    }
+  }
+
+  testId(value: unknown, at: string): string | undefined {
+    if (value === undefined) return undefined
+    if (typeof value === 'string' && TEST_ID_PATTERN.test(value)) return value
+    this.fail(at, 'expected a lowercase-hyphenated id')
+    return undefined
+  }
+
+  flag(value: unknown, at: string): FeatureFlag | undefined {
+    if (value === undefined) return undefined
+    if (FEATURE_FLAG_NAMES.includes(value as FeatureFlag)) return value as FeatureFlag
+    this.fail(at, `unknown feature flag ${JSON.stringify(value)} (known: ${FEATURE_FLAG_NAMES.join(', ')})`)
+    return undefined
+  }
+
+  iconName(value: unknown, at: string): IconName {
+    if (ICON_NAMES.includes(value as IconName)) return value as IconName
+    this.fail(at, `unknown icon ${JSON.stringify(value)} (known: ${ICON_NAMES.join(', ')})`)
+    return ICON_NAMES[0]
+  }
+
+  link(value: unknown, at: string): ContentLink {
+    const obj = this.fields(value, at, ['label', 'href'], ['testId', 'newTab', 'flag'])
+    const href = this.href(obj.href, `${at}.href`)
+    const target = href.startsWith('/') ? hrefLocale(href, this.locale) : this.locale
+    return {
+      label: this.text(obj.label, `${at}.label`),
+      href,
+      testId: this.testId(obj.testId, `${at}.testId`),
+      newTab: this.boolean(obj.newTab, `${at}.newTab`),
+      flag: this.flag(obj.flag, `${at}.flag`),
+      hrefLang: target === this.locale ? undefined : target,
+    }
+  }
+
+  badge(value: unknown, at: string): ContentBadge {
+    const obj = this.fields(value, at, ['href', 'label', 'image'], ['testId', 'sponsored', 'flag'])
+    return {
+      href: this.href(obj.href, `${at}.href`),
+      label: this.text(obj.label, `${at}.label`),
+      image: this.image(obj.image, `${at}.image`),
+      testId: this.testId(obj.testId, `${at}.testId`),
+      sponsored: this.boolean(obj.sponsored, `${at}.sponsored`),
+      flag: this.flag(obj.flag, `${at}.flag`),
+    }
+  }
+}
+
+export function parseHomeContent(input: unknown, locale: Locale = DEFAULT_LOCALE): HomeContent {
+  // A translation that has drifted from en.json is reported on its own: the
+  // field-by-field errors would only repeat it.
+  if (locale !== DEFAULT_LOCALE) {
+    const drift = translationProblems(en, input)
+    if (drift.length > 0) throw new ContentError(`content/home/${locale}.json`, drift)
+  }
+
+  const r = new Reader(locale)
+  const root = r.fields(input, '$', ['hero', 'discord', 'account', 'sessions', 'resesh', 'core', 'economy', 'dice', 'calculator', 'footer'])
+
+  const hero = r.fields(root.hero, 'hero', ['logo', 'title', 'tagline', 'intro'])
+  const discord = r.fields(root.discord, 'discord', ['heading', 'lead', 'body', 'cta'])
+  const account = r.fields(root.account, 'account', ['heading', 'link'])
+  const sessions = r.fields(root.sessions, 'sessions', ['heading', 'link'])
+  const resesh = r.fields(root.resesh, 'resesh', ['heading', 'icon', 'lead', 'body'], ['badge', 'demoLink', 'cta'])
+  const core = r.fields(root.core, 'core', ['heading', 'lead', 'body'], ['affiliateBadge'])
+  const economy = r.fields(root.economy, 'economy', ['heading', 'cards'])
+  const dice = r.fields(root.dice, 'dice', ['heading'])
+  const calculator = r.fields(root.calculator, 'calculator', ['heading'])
+  const footer = r.fields(root.footer, 'footer', ['social', 'links', 'copyright'])
+
+  const content: HomeContent = {
+    hero: {
+      logo: r.image(hero.logo, 'hero.logo'),
+      title: r.text(hero.title, 'hero.title'),
+      tagline: r.text(hero.tagline, 'hero.tagline'),
+      intro: r.array(hero.intro, 'hero.intro').map((p, i) => r.text(p, `hero.intro[${i}]`)),
+    },
+    discord: {
+      heading: r.text(discord.heading, 'discord.heading'),
+      lead: r.text(discord.lead, 'discord.lead'),
+      body: r.text(discord.body, 'discord.body'),
+      cta: r.link(discord.cta, 'discord.cta'),
+    },
+    account: {
+      heading: r.text(account.heading, 'account.heading'),
+      link: r.link(account.link, 'account.link'),
+    },
+    sessions: {
+      heading: r.text(sessions.heading, 'sessions.heading'),
+      link: r.link(sessions.link, 'sessions.link'),
+    },
+    resesh: {
+      heading: r.text(resesh.heading, 'resesh.heading'),
+      icon: r.image(resesh.icon, 'resesh.icon'),
+      lead: r.text(resesh.lead, 'resesh.lead'),
+      body: r.text(resesh.body, 'resesh.body'),
+      badge: resesh.badge === undefined ? undefined : r.badge(resesh.badge, 'resesh.badge'),
+      demoLink: resesh.demoLink === undefined ? undefined : r.link(resesh.demoLink, 'resesh.demoLink'),
+      cta: resesh.cta === undefined ? undefined : r.link(resesh.cta, 'resesh.cta'),
+    },
+    core: {
+      heading: r.text(core.heading, 'core.heading'),
+      lead: r.text(core.lead, 'core.lead'),
+      body: r.text(core.body, 'core.body'),
+      affiliateBadge:
+        core.affiliateBadge === undefined ? undefined : r.badge(core.affiliateBadge, 'core.affiliateBadge'),
+    },
+    economy: {
+      heading: r.text(economy.heading, 'economy.heading'),
+      cards: r.array(economy.cards, 'economy.cards').map((value, i) => {
+        const at = `economy.cards[${i}]`
+        const card = r.fields(value, at, ['heading', 'icon', 'body'], ['cta'])
+        return {
+          heading: r.text(card.heading, `${at}.heading`),
+          icon: typeof card.icon === 'string' ? r.iconName(card.icon, `${at}.icon`) : r.image(card.icon, `${at}.icon`),
+          body: r.text(card.body, `${at}.body`),
+          cta: card.cta === undefined ? undefined : r.link(card.cta, `${at}.cta`),
+        }
+      }),
+    },
+    dice: { heading: r.text(dice.heading, 'dice.heading') },
+    calculator: { heading: r.text(calculator.heading, 'calculator.heading') },
+    footer: {
+      social: r.array(footer.social, 'footer.social').map((value, i) => {
+        const at = `footer.social[${i}]`
+        const link = r.fields(value, at, ['icon', 'label', 'href'], ['testId'])
+        return {
+          icon: r.iconName(link.icon, `${at}.icon`),
+          label: r.text(link.label, `${at}.label`),
+          href: r.href(link.href, `${at}.href`),
+          testId: r.testId(link.testId, `${at}.testId`),
+        }
+      }),
+      links: r.array(footer.links, 'footer.links').map((link, i) => r.link(link, `footer.links[${i}]`)),
+      copyright: r.text(footer.copyright, 'footer.copyright'),
+    },
+  }
+
+  if (r.problems.length > 0) throw new ContentError(`content/home/${locale}.json`, r.problems)
+  return content
+}
+
+const FILES: Record<Locale, unknown> = { en, es, pt }
+
+/** The validated homepage content per locale. Throws at import time if any file is broken. */
+export const HOME_CONTENT = Object.fromEntries(
+  LOCALES.map(locale => [locale, parseHomeContent(FILES[locale], locale)]),
+) as Record<Locale, HomeContent>
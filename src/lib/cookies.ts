@@ -0,0 +1,10 @@
+// Reading cookies in the browser. Server components use next/headers
+// instead — except on prerendered pages, which have no request to read, so
+// the client components that matter there catch up after hydration.
+
+export function readCookie(name: string): string | undefined {
+  return document.cookie
+    .split('; ')
+    .find(c => c.startsWith(`${name}=`))
+    ?.slice(name.length + 1)
+}
@@ -0,0 +1,51 @@
+import { CORE_APP_URL } from '../site'
+
+// Read-only client for Core's player API. Core already trusts Discord for
+// sign-in, so www forwards the visitor's Discord access token and Core only
+// ever answers for that user — www holds no Core credentials of its own.
+
+// Overridable so `npm run mock:upstream` can stand in for Core locally.
+export const CORE_API_URL = process.env.CORE_API_URL ?? `${process.env.CORE_PUBLIC_URL ?? CORE_APP_URL}/api`
+
+export interface WalletBalances {
+  /** Compute Tokens. */
+  CT: number
+  /** Crit-Coins. */
+  CC: number
+  /** Story Credit. */
+  SC: number
+}
+
+export type WalletLookup =
+  | { status: 'ok'; balances: WalletBalances }
+  /** Signed in with Discord but never entered Core, so there's no wallet yet. */
+  | { status: 'no-account' }
+  /** Core is down or answered with something unexpected. */
+  | { status: 'unavailable' }
+
+function isBalance(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/** `GET {CORE_API_URL}/wallet` → `{ balances: { CT, CC, SC } }`. */
+export async function getWalletBalances(discordAccessToken: string): Promise<WalletLookup> {
+  try {
+    const res = await fetch(`${CORE_API_URL}/wallet`, {
+      headers: { Authorization: `Bearer ${discordAccessToken}` },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(5000),
+    })
+    if (res.status === 404) return { status: 'no-account' }
+    if (!res.ok) return { status: 'unavailable' }
+
+    const body: unknown = await res.json()
+    const balances = (body as { balances?: Record<string, unknown> } | null)?.balances
+    if (!balances || !isBalance(balances.CT) || !isBalance(balances.CC) || !isBalance(balances.SC)) {
+      return { status: 'unavailable' }
+    }
+    return { status: 'ok', balances: { CT: balances.CT, CC: balances.CC, SC: balances.SC } }
+  } catch (err) {
+    console.error('[core] wallet lookup failed', err)
+    return { status: 'unavailable' }
+  }
+}
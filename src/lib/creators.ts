@@ -0,0 +1,170 @@
+import { CORE_APP_URL, CORE_WALLET_URL } from './site'
+
+// The creator/GM directory behind /creators, read from a JSON feed at
+// CORE_CREATORS_URL. Core owns creator profiles and the wallet handles tips
+// go to, so there's no local copy: with no feed, or while it's down, the
+// directory is empty rather than listing people who might not exist.
+//
+// Feed format: `{ "creators": Creator[] }` (or a bare array). Invalid
+// entries are dropped individually. `npm run mock:upstream` serves a sample
+// feed for local development.
+
+export const GAME_SYSTEMS = [
+  { slug: 'cypher', name: 'Cypher System' },
+  { slug: '5e', name: '5e-compatible' },
+  { slug: 'pf2e', name: 'Pathfinder 2e' },
+  { slug: 'pbta', name: 'Powered by the Apocalypse' },
+  { slug: 'osr', name: 'OSR' },
+] as const
+
+export type GameSystem = (typeof GAME_SYSTEMS)[number]['slug']
+
+export interface CreatorLink {
+  name: string
+  href: string
+}
+
+export interface Creator {
+  /** URL slug for /creators/[handle]; also the tip recipient in Core. */
+  handle: string
+  name: string
+  /** Path under public/ or a Discord CDN avatar URL. Initials are shown without one. */
+  avatar?: string
+  bio: string
+  systems: GameSystem[]
+  campaigns: CreatorLink[]
+  assetPacks: CreatorLink[]
+  /** The creator's public profile in Core. */
+  coreProfileUrl?: string
+}
+
+// How often the remote feed is re-read.
+const REMOTE_REVALIDATE_S = 300
+
+const HANDLE_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const SYSTEM_SLUGS = new Set<string>(GAME_SYSTEMS.map(s => s.slug))
+const CORE_ORIGIN = new URL(CORE_APP_URL).origin
+
+// Avatars render as plain <img> from these hosts, which the CSP allows.
+const AVATAR_HOSTS = new Set(['cdn.discordapp.com'])
+
+function isHttps(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function isAvatar(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  if (value.startsWith('/') && !value.startsWith('//')) return true
+  return isHttps(value) && AVATAR_HOSTS.has(new URL(value).hostname)
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+// Campaign links may point back into the site (e.g. a journal tag); asset
+// packs are always external stores.
+function links(value: unknown, { allowInternal }: { allowInternal: boolean }): CreatorLink[] | null {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) return null
+  const result: CreatorLink[] = []
+  for (const item of value) {
+    const { name, href } = (item ?? {}) as Record<string, unknown>
+    const label = text(name)
+    const internal = allowInternal && typeof href === 'string' && href.startsWith('/') && !href.startsWith('//')
+    if (!label || !(internal || isHttps(href))) return null
+    result.push({ name: label, href: href as string })
+  }
+  return result
+}
+
+/** Validates one creator entry; null if it's unusable. */
+export function parseCreator(input: unknown): Creator | null {
+  if (typeof input !== 'object' || input === null) return null
+  const entry = input as Record<string, unknown>
+
+  if (typeof entry.handle !== 'string' || !HANDLE_PATTERN.test(entry.handle)) return null
+  const name = text(entry.name)
+  const bio = text(entry.bio)
+  if (!name || !bio) return null
+  if (entry.avatar !== undefined && !isAvatar(entry.avatar)) return null
+  if (!Array.isArray(entry.systems) || entry.systems.length === 0) return null
+  if (!entry.systems.every(s => typeof s === 'string' && SYSTEM_SLUGS.has(s))) return null
+  // Profiles must live on Core itself, so a "profile" link can't send
+  // tippers somewhere else.
+  if (entry.coreProfileUrl !== undefined) {
+    if (!isHttps(entry.coreProfileUrl) || new URL(entry.coreProfileUrl).origin !== CORE_ORIGIN) return null
+  }
+
+  const campaigns = links(entry.campaigns, { allowInternal: true })
+  const assetPacks = links(entry.assetPacks, { allowInternal: false })
+  if (!campaigns || !assetPacks) return null
+
+  return {
+    handle: entry.handle,
+    name,
+    ...(entry.avatar !== undefined && { avatar: entry.avatar as string }),
+    bio,
+    systems: [...new Set(entry.systems as GameSystem[])],
+    campaigns,
+    assetPacks,
+    ...(entry.coreProfileUrl !== undefined && { coreProfileUrl: entry.coreProfileUrl as string }),
+  }
+}
+
+async function remoteCreators(): Promise<Creator[] | null> {
+  const url = process.env.CORE_CREATORS_URL
+  if (!url) return null
+
+  try {
+    const res = await fetch(url, {
+      signal: AbortSignal.timeout(3000),
+      next: { revalidate: REMOTE_REVALIDATE_S },
+    })
+    if (!res.ok) return null
+    const body: unknown = await res.json()
+    const entries = Array.isArray(body) ? body : (body as { creators?: unknown } | null)?.creators
+    if (!Array.isArray(entries)) return null
+
+    const byHandle = new Map<string, Creator>()
+    for (const entry of entries) {
+      const creator = parseCreator(entry)
+      if (creator && !byHandle.has(creator.handle)) byHandle.set(creator.handle, creator)
+      else console.warn('[creators] dropping invalid or duplicate feed entry', entry)
+    }
+    return [...byHandle.values()]
+  } catch (err) {
+    console.error('[creators] failed to load remote creators', err)
+    return null
+  }
+}
+
+/** Every listed creator, by name; empty without a reachable feed. Server-only. */
+export async function getCreators(): Promise<Creator[]> {
+  const creators = (await remoteCreators()) ?? []
+  return creators.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function getCreator(handle: string): Promise<Creator | null> {
+  return (await getCreators()).find(c => c.handle === handle) ?? null
+}
+
+export function isGameSystem(value: unknown): value is GameSystem {
+  return typeof value === 'string' && SYSTEM_SLUGS.has(value)
+}
+
+export function gameSystemName(slug: GameSystem): string {
+  return GAME_SYSTEMS.find(s => s.slug === slug)!.name
+}
+
+/** Deep link into the Core wallet's tip flow with this creator pre-selected. */
+export function tipUrl(creator: Creator): string {
+  const url = new URL(CORE_WALLET_URL)
+  url.searchParams.set('tip', creator.handle)
+  return url.toString()
+}
@@ -0,0 +1,11 @@
+import { headers } from 'next/headers'
+
+/**
+ * The per-request nonce issued by src/proxy.ts, for inline <script> tags
+ * rendered by server components. Next stamps its own scripts automatically.
+ * Reading it opts the route into dynamic rendering — unavoidable, since a
+ * prerendered page can't carry a per-request nonce.
+ */
+export async function getCspNonce(): Promise<string | undefined> {
+  return (await headers()).get('x-nonce') ?? undefined
+}
@@ -0,0 +1,100 @@
+// Content-Security-Policy for HTML responses, issued per request by
+// src/proxy.ts so every page rendered per request gets a fresh script
+// nonce. Prerendered pages (STATIC_PATHS) can't have one — their HTML is
+// built once — so they get the same policy without it.
+//
+// Rollout is controlled by CSP_MODE:
+//   report-only (default)  the strict nonce policy is sent report-only and
+//                          the legacy permissive policy stays enforced, so
+//                          violations show up in /api/csp-report without
+//                          breaking anything
+//   enforce                only the strict policy is sent, and enforced
+
+export type CspMode = 'enforce' | 'report-only'
+
+export const CSP_REPORT_PATH = '/api/csp-report'
+
+// Name used to tie `report-to` to the Reporting-Endpoints header.
+export const CSP_REPORT_GROUP = 'csp-endpoint'
+
+// Third-party image hosts we embed directly (DigitalOcean affiliate badge,
+// Discord avatars on /account).
+const IMG_HOSTS = ['https://web-platforms.sfo2.cdn.digitaloceanspaces.com', 'https://cdn.discordapp.com']
+
+// Pages exporting `dynamic = 'force-static'`, as paths without the locale
+// prefix. Keep in step with the pages: a prerendered page sent the nonce
+// policy has every script blocked once CSP_MODE=enforce.
+const STATIC_PATHS = [/^\/pricing$/, /^\/servers\/[^/]+$/]
+
+export function isStaticPath(path: string): boolean {
+  return STATIC_PATHS.some(pattern => pattern.test(path))
+}
+
+export function getCspMode(): CspMode {
+  return process.env.CSP_MODE === 'enforce' ? 'enforce' : 'report-only'
+}
+
+export function generateNonce(): string {
+  return Buffer.from(crypto.randomUUID()).toString('base64')
+}
+
+function serialize(directives: Record<string, string[]>): string {
+  return Object.entries(directives)
+    .map(([name, values]) => [name, ...values].join(' '))
+    .join('; ')
+}
+
+/**
+ * The strict policy: scripts only by nonce (plus whatever those scripts
+ * load, via 'strict-dynamic'), and network access limited to our own
+ * origin. Styles keep 'unsafe-inline' — Tailwind and next/image emit style
+ * attributes, which a nonce can't cover.
+ *
+ * Without a nonce (prerendered pages) scripts are limited to our origin
+ * instead, plus 'unsafe-inline' for the payload Next inlines into the page,
+ * which differs per page and per build so can't be listed by hash. Every
+ * chunk tag carries an SRI hash (experimental.sri in next.config.js), so a
+ * chunk that doesn't match the build still won't run.
+ */
+export function buildStrictCsp({ nonce, isDev }: { nonce: string | null; isDev: boolean }): string {
+  const scripts = nonce ? ["'self'", `'nonce-${nonce}'`, "'strict-dynamic'"] : ["'self'", "'unsafe-inline'"]
+  return serialize({
+    'default-src': ["'self'"],
+    // React needs eval in development for its error overlays; never in prod.
+    'script-src': [...scripts, ...(isDev ? ["'unsafe-eval'"] : [])],
+    'style-src': ["'self'", "'unsafe-inline'"],
+    'img-src': ["'self'", 'data:', 'blob:', ...IMG_HOSTS],
+    'font-src': ["'self'", 'data:'],
+    // Dev needs the HMR websocket.
+    'connect-src': ["'self'", ...(isDev ? ['ws:'] : [])],
+    'frame-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'self'"],
+    'report-uri': [CSP_REPORT_PATH],
+    'report-to': [CSP_REPORT_GROUP],
+    ...(isDev ? {} : { 'upgrade-insecure-requests': [] }),
+  })
+}
+
+/**
+ * The policy www shipped with before nonces. Only enforced during a
+ * report-only rollout, so tightening can't regress anything that worked.
+ */
+export function buildLegacyCsp(): string {
+  return serialize({
+    'default-src': ["'self'"],
+    'script-src': ["'self'", "'unsafe-eval'", "'unsafe-inline'"],
+    'style-src': ["'self'", "'unsafe-inline'", 'https:'],
+    'img-src': ["'self'", 'data:', 'https:', 'blob:'],
+    'font-src': ["'self'", 'data:', 'https:'],
+    'connect-src': ["'self'", 'https:', 'wss:', 'ws:'],
+    'frame-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'self'"],
+    'upgrade-insecure-requests': [],
+  })
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { type CspViolation, parseCspReports, recordCspViolations } from './reports'
+
+const violation = (blockedUri: string): CspViolation => ({
+  documentUri: 'https://www.crit-fumble.com/pricing',
+  directive: 'script-src-elem',
+  blockedUri,
+  disposition: 'report',
+})
+
+describe('recordCspViolations', () => {
+  let warn: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.runOnlyPendingTimers()
+    vi.useRealTimers()
+    warn.mockRestore()
+  })
+
+  it('logs the first report of a window straight away', () => {
+    recordCspViolations([violation('inline')])
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn).toHaveBeenCalledWith('[csp] violation', JSON.stringify(violation('inline')))
+  })
+
+  it('flushes the window on a timer, without waiting for another report', () => {
+    recordCspViolations([violation('inline'), violation('inline')])
+    recordCspViolations([violation('https://evil.example/x.js')])
+    expect(warn).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(60_000)
+    expect(warn).toHaveBeenCalledTimes(2)
+    expect(warn).toHaveBeenLastCalledWith(
+      '[csp] violations in the last window',
+      JSON.stringify([
+        { count: 2, ...violation('inline') },
+        { count: 1, ...violation('https://evil.example/x.js') },
+      ]),
+    )
+  })
+
+  it('starts a new window after a flush', () => {
+    recordCspViolations([violation('inline')])
+    vi.advanceTimersByTime(60_000)
+    recordCspViolations([violation('eval')])
+    expect(warn).toHaveBeenCalledTimes(3)
+    expect(warn).toHaveBeenLastCalledWith('[csp] violation', JSON.stringify(violation('eval')))
+  })
+
+  it('ignores empty batches', () => {
+    recordCspViolations([])
+    vi.advanceTimersByTime(60_000)
+    expect(warn).not.toHaveBeenCalled()
+  })
+})
+
+describe('parseCspReports', () => {
+  it('strips query strings from Reporting API reports', () => {
+    expect(
+      parseCspReports([
+        {
+          type: 'csp-violation',
+          body: {
+            documentURL: 'https://www.crit-fumble.com/pricing?plan=pro#top',
+            effectiveDirective: 'script-src-elem',
+            blockedURL: 'inline',
+            disposition: 'report',
+          },
+        },
+      ]),
+    ).toEqual([{ ...violation('inline'), sourceFile: undefined }])
+  })
+})
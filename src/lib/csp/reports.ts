@@ -0,0 +1,117 @@
+// Normalizes and aggregates CSP violation reports. Browsers send one report
+// per blocked resource per page view, so logging each would drown the logs
+// the moment a directive is wrong; instead the first report of a window is
+// logged as it arrives, and identical violations are counted and flushed as
+// one summary line when the window's timer fires.
+
+export interface CspViolation {
+  documentUri: string
+  directive: string
+  blockedUri: string
+  sourceFile?: string
+  disposition: 'enforce' | 'report'
+}
+
+// Legacy `report-uri` payload (Content-Type: application/csp-report).
+interface LegacyReport {
+  'csp-report'?: {
+    'document-uri'?: string
+    'effective-directive'?: string
+    'violated-directive'?: string
+    'blocked-uri'?: string
+    'source-file'?: string
+    disposition?: string
+  }
+}
+
+// Reporting API payload (Content-Type: application/reports+json).
+interface ReportingApiReport {
+  type?: string
+  body?: {
+    documentURL?: string
+    effectiveDirective?: string
+    blockedURL?: string
+    sourceFile?: string
+    disposition?: string
+  }
+}
+
+const FLUSH_INTERVAL_MS = 60_000
+
+// Caps distinct violation keys per window so a hostile client can't grow
+// the map without bound.
+const MAX_KEYS = 500
+
+// Strip query strings and fragments — they're noise for aggregation and
+// can carry user data.
+function stripUrl(value: string | undefined): string {
+  if (!value) return ''
+  try {
+    const url = new URL(value)
+    return `${url.origin}${url.pathname}`
+  } catch {
+    return value // keywords like 'inline', 'eval', 'data'
+  }
+}
+
+function disposition(value: string | undefined): CspViolation['disposition'] {
+  return value === 'report' ? 'report' : 'enforce'
+}
+
+export function parseCspReports(body: unknown): CspViolation[] {
+  if (Array.isArray(body)) {
+    return (body as ReportingApiReport[])
+      .filter(report => report?.type === 'csp-violation' && report.body)
+      .map(({ body: r }) => ({
+        documentUri: stripUrl(r!.documentURL),
+        directive: r!.effectiveDirective ?? '',
+        blockedUri: stripUrl(r!.blockedURL),
+        sourceFile: r!.sourceFile ? stripUrl(r!.sourceFile) : undefined,
+        disposition: disposition(r!.disposition),
+      }))
+  }
+
+  const legacy = (body as LegacyReport | null)?.['csp-report']
+  if (!legacy) return []
+  return [
+    {
+      documentUri: stripUrl(legacy['document-uri']),
+      directive: legacy['effective-directive'] ?? legacy['violated-directive'] ?? '',
+      blockedUri: stripUrl(legacy['blocked-uri']),
+      sourceFile: legacy['source-file'] ? stripUrl(legacy['source-file']) : undefined,
+      disposition: disposition(legacy.disposition),
+    },
+  ]
+}
+
+let counts = new Map<string, { violation: CspViolation; count: number }>()
+let timer: ReturnType<typeof setTimeout> | null = null
+
+function flush() {
+  if (counts.size > 0) {
+    const summary = [...counts.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(({ violation, count }) => ({ count, ...violation }))
+    console.warn('[csp] violations in the last window', JSON.stringify(summary))
+  }
+  counts = new Map()
+  timer = null
+}
+
+export function recordCspViolations(violations: CspViolation[]) {
+  if (violations.length === 0) return
+  if (!timer) {
+    // A serverless instance can be frozen or recycled before the timer
+    // fires, so don't let the only evidence of a bad directive wait for it.
+    console.warn('[csp] violation', JSON.stringify(violations[0]))
+    timer = setTimeout(flush, FLUSH_INTERVAL_MS)
+    // Don't hold `next start` open at shutdown for a summary.
+    timer.unref?.()
+  }
+  for (const violation of violations) {
+    const key = [violation.disposition, violation.directive, violation.blockedUri, violation.documentUri].join('|')
+    const entry = counts.get(key)
+    if (entry) entry.count += 1
+    else if (counts.size < MAX_KEYS) counts.set(key, { violation, count: 1 })
+  }
+}
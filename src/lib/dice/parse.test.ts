@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest'
+import { getMessages } from '../i18n/messages'
+import {
+  DiceSyntaxError,
+  formatDiceError,
+  MAX_CONSTANT,
+  MAX_DICE_PER_TERM,
+  MAX_SIDES,
+  MAX_TERMS,
+  parseRoll,
+} from './parse'
+
+function rejection(input: string): DiceSyntaxError {
+  try {
+    parseRoll(input)
+  } catch (err) {
+    if (!(err instanceof DiceSyntaxError)) throw err
+    return err
+  }
+  throw new Error(`expected "${input}" to be rejected`)
+}
+
+function syntaxError(input: string): { message: string; position: number | null } {
+  const { message, position } = rejection(input)
+  return { message, position }
+}
+
+describe('parseRoll', () => {
+  describe('valid notation', () => {
+    it('parses dice plus a constant', () => {
+      expect(parseRoll('2d6+3')).toEqual({
+        terms: [
+          { kind: 'dice', sign: 1, count: 2, sides: 6, keep: null, explode: false },
+          { kind: 'constant', sign: 1, value: 3 },
+        ],
+        mode: 'normal',
+        notation: '2d6+3',
+      })
+    })
+
+    it.each([
+      ['d20', '1d20'],
+      ['d%', '1d100'],
+      ['1d%', '1d100'],
+      ['7', '7'],
+      ['-1d4', '-1d4'],
+      ['+1d4', '1d4'],
+      ['1d20-2+1d4', '1d20-2+1d4'],
+      ['3d8+2d6-1', '3d8+2d6-1'],
+      ['0', '0'],
+    ])('%s → %s', (input, notation) => {
+      expect(parseRoll(input).notation).toBe(notation)
+    })
+
+    it('keeps subtraction as a sign on the term', () => {
+      expect(parseRoll('1d20-2').terms[1]).toEqual({ kind: 'constant', sign: -1, value: 2 })
+      expect(parseRoll('-1d4').terms[0]).toMatchObject({ kind: 'dice', sign: -1, count: 1, sides: 4 })
+    })
+  })
+
+  describe('whitespace and case', () => {
+    it.each([
+      [' 1D20 + 5  ADV', '1d20+5 adv'],
+      ['2 d 6 + 3', '2d6+3'],
+      ['\t4D6KH3\n', '4d6kh3'],
+      ['D%', '1d100'],
+      ['1d20 Advantage', '1d20 adv'],
+      ['1d20   DISADVANTAGE', '1d20 dis'],
+      ['  CYPHER ', '1d20 cypher'],
+    ])('%j → %s', (input, notation) => {
+      expect(parseRoll(input).notation).toBe(notation)
+    })
+  })
+
+  describe('roll modes', () => {
+    it.each([
+      ['1d20+5 adv', 'advantage', '1d20+5 adv'],
+      ['1d20+5 advantage', 'advantage', '1d20+5 adv'],
+      ['d20-1 dis', 'disadvantage', '1d20-1 dis'],
+      ['d20 disadvantage', 'disadvantage', '1d20 dis'],
+      ['cypher', 'cypher', '1d20 cypher'],
+      ['1d20 cypher', 'cypher', '1d20 cypher'],
+      ['1d20+2 cypher', 'cypher', '1d20+2 cypher'],
+      ['2d6+1d20 adv', 'advantage', '2d6+1d20 adv'],
+    ])('%s is %s', (input, mode, notation) => {
+      expect(parseRoll(input)).toMatchObject({ mode, notation })
+    })
+
+    it('only treats the last word as a mode', () => {
+      expect(syntaxError('adv 1d20')).toEqual({ message: 'Unexpected "a" at position 1', position: 0 })
+    })
+  })
+
+  describe('keep/drop and exploding modifiers', () => {
+    it.each([
+      ['4d6kh3', { mode: 'kh', count: 3 }, '4d6kh3'],
+      ['4d6k3', { mode: 'kh', count: 3 }, '4d6kh3'],
+      ['4d6k', { mode: 'kh', count: 1 }, '4d6kh1'],
+      ['2d20kl1', { mode: 'kl', count: 1 }, '2d20kl1'],
+      ['2d20kl', { mode: 'kl', count: 1 }, '2d20kl1'],
+      ['4d6dl1', { mode: 'dl', count: 1 }, '4d6dl1'],
+      ['4d6d1', { mode: 'dl', count: 1 }, '4d6dl1'],
+      ['4d6d', { mode: 'dl', count: 1 }, '4d6dl1'],
+      ['5d10dh2', { mode: 'dh', count: 2 }, '5d10dh2'],
+      ['4d6kh4', { mode: 'kh', count: 4 }, '4d6kh4'],
+      ['4d6dl3', { mode: 'dl', count: 3 }, '4d6dl3'],
+    ])('%s', (input, keep, notation) => {
+      const { terms, notation: canonical } = parseRoll(input)
+      expect(terms[0]).toMatchObject({ kind: 'dice', keep, explode: false })
+      expect(canonical).toBe(notation)
+    })
+
+    it.each([
+      ['3d6!', '3d6!'],
+      ['d6!', '1d6!'],
+      ['4d6!kh3', '4d6!kh3'],
+      ['4d6kh3!', '4d6!kh3'],
+      ['1d2!', '1d2!'],
+    ])('%s explodes', (input, notation) => {
+      const { terms, notation: canonical } = parseRoll(input)
+      expect(terms[0]).toMatchObject({ kind: 'dice', explode: true })
+      expect(canonical).toBe(notation)
+    })
+
+    it('applies modifiers per term', () => {
+      expect(parseRoll('4d6kh3+2d20kl1-1').terms).toEqual([
+        { kind: 'dice', sign: 1, count: 4, sides: 6, keep: { mode: 'kh', count: 3 }, explode: false },
+        { kind: 'dice', sign: 1, count: 2, sides: 20, keep: { mode: 'kl', count: 1 }, explode: false },
+        { kind: 'constant', sign: -1, value: 1 },
+      ])
+    })
+  })
+
+  describe('limits', () => {
+    it('accepts values at each limit', () => {
+      expect(parseRoll(`${MAX_DICE_PER_TERM}d6`).terms[0]).toMatchObject({ count: MAX_DICE_PER_TERM })
+      expect(parseRoll(`1d${MAX_SIDES}`).terms[0]).toMatchObject({ sides: MAX_SIDES })
+      expect(parseRoll(`${MAX_CONSTANT}`).terms[0]).toEqual({ kind: 'constant', sign: 1, value: MAX_CONSTANT })
+      expect(parseRoll(Array(MAX_TERMS).fill('1').join('+')).terms).toHaveLength(MAX_TERMS)
+    })
+
+    it.each([
+      ['101d6', 'Too many dice: 101 (max 100 per term)', 0],
+      ['1d6+101d6', 'Too many dice: 101 (max 100 per term)', 4],
+      ['1d1001', 'Too many sides: d1001 (max d1000)', 0],
+      ['100001', 'Modifier 100001 is larger than 100000', 0],
+      ['1d20+100001', 'Modifier 100001 is larger than 100000', 5],
+      ['12345678d6', 'Number "12345678" is too large', 0],
+      ['1d12345678', 'Number "12345678" is too large', 2],
+    ])('%s', (input, message, position) => {
+      expect(syntaxError(input)).toEqual({ message, position })
+    })
+
+    it('rejects more than MAX_TERMS terms', () => {
+      expect(syntaxError(Array(MAX_TERMS + 1).fill('1').join('+'))).toEqual({
+        message: 'Too many terms (max 20)',
+        position: 41,
+      })
+    })
+  })
+
+  describe('malformed input', () => {
+    it.each([
+      ['', 'Enter a dice expression, e.g. 2d6+3', null],
+      ['   ', 'Enter a dice expression, e.g. 2d6+3', null],
+      ['abc', 'Unexpected "a" at position 1', 0],
+      ['2d6x', 'Unexpected "x" at position 4', 3],
+      ['2d6++3', 'Unexpected "+" at position 5', 4],
+      ['2d6*2', 'Unexpected "*" at position 4', 3],
+      ['(1d6)', 'Unexpected "(" at position 1', 0],
+      ['2d6+', 'Expression ends unexpectedly', 4],
+      ['-', 'Expression ends unexpectedly', 1],
+      ['d', 'Expected a number of sides after "d" at position 2', 1],
+      ['2d', 'Expected a number of sides after "d" at position 3', 2],
+      ['2d+1', 'Expected a number of sides after "d" at position 3', 2],
+      ['0d6', 'Roll at least one die (position 1)', 0],
+      ['1d0', 'A die needs at least 1 side (position 1)', 0],
+      ['3d6!!', '"!" appears twice at position 5', 4],
+      ['4d6kh3kl1', 'Only one keep/drop modifier is allowed per dice term (position 7)', 6],
+      ['4d6kh3d1', 'Only one keep/drop modifier is allowed per dice term (position 7)', 6],
+      ['4d6kh5', "Can't keep 5 of 4 dice (position 4)", 3],
+      ['4d6kh0', "Can't keep 0 of 4 dice (position 4)", 3],
+      ['1d20kl2', "Can't keep 2 of 1 die (position 5)", 4],
+      ['4d6dl4', "Can't drop 4 of 4 dice — at least one must remain (position 4)", 3],
+      ['4d6dh0', "Can't drop 0 of 4 dice — at least one must remain (position 4)", 3],
+      ['1d6d1', "Can't drop 1 of 1 die — at least one must remain (position 4)", 3],
+      ['1d1!', "A d1 can't explode — it would never stop (position 1)", 0],
+    ])('%j', (input, message, position) => {
+      expect(syntaxError(input)).toEqual({ message, position })
+    })
+
+    it.each([
+      ['adv', '"adv" needs something to roll, e.g. 1d20+5 adv'],
+      ['disadvantage', '"disadvantage" needs something to roll, e.g. 1d20+5 disadvantage'],
+      ['2d20 adv', 'Advantage needs exactly one plain d20, e.g. 1d20+5 adv'],
+      ['1d6+3 adv', 'Advantage needs exactly one plain d20, e.g. 1d20+5 adv'],
+      ['1d20! adv', 'Advantage needs exactly one plain d20, e.g. 1d20+5 adv'],
+      ['1d6 dis', 'Disadvantage needs exactly one plain d20, e.g. 1d20+5 dis'],
+      ['2d20kh1 dis', 'Disadvantage needs exactly one plain d20, e.g. 1d20+5 dis'],
+      ['2d6 cypher', 'Cypher rolls use a single d20, e.g. "cypher" or "1d20 cypher"'],
+      ['d100 cypher', 'Cypher rolls use a single d20, e.g. "cypher" or "1d20 cypher"'],
+    ])('%j', (input, message) => {
+      expect(syntaxError(input)).toEqual({ message, position: null })
+    })
+  })
+
+  describe('localized messages', () => {
+    it('carries a code and params for the catalogs', () => {
+      expect(rejection('4d6kh5')).toMatchObject({ code: 'cannot-keep', params: { keep: 5, total: 4, position: 4 } })
+      expect(rejection('2d6x')).toMatchObject({ code: 'unexpected-character', params: { character: 'x', position: 4 } })
+      expect(rejection('2d20 adv')).toMatchObject({ code: 'advantage-needs-d20', params: {} })
+    })
+
+    it.each([
+      ['es', '4d6kh5', 'No se pueden conservar 5 de 4 dados (posición 4)'],
+      ['es', '1d20kl2', 'No se pueden conservar 2 de 1 dado (posición 5)'],
+      ['pt', '1d6d1', 'Não dá para descartar 1 de 1 dado — pelo menos um precisa ficar (posição 4)'],
+      ['pt', 'adv', '"adv" precisa de algo para rolar, ex.: 1d20+5 adv'],
+    ] as const)('%s: %j', (locale, input, message) => {
+      expect(formatDiceError(rejection(input), getMessages(locale).dice)).toBe(message)
+    })
+  })
+})
@@ -0,0 +1,315 @@
+// Dice notation parser.
+//
+//   input     := expr? mode?            e.g. "4d6kh3", "1d20+5 adv", "cypher"
+//   expr      := sign? term (sign term)*
+//   term      := dice | integer
+//   dice      := integer? "d" (integer | "%") modifier*
+//   modifier  := "!"                    explode on max
+//              | ("kh"|"kl"|"dh"|"dl") integer?
+//              | "k" integer?           keep highest (shorthand)
+//              | "d" integer?           drop lowest (shorthand)
+//   mode      := "adv" | "advantage" | "dis" | "disadvantage" | "cypher"
+//
+// Whitespace inside the expression is ignored; the mode keyword is the last
+// whitespace-separated word. Parsing is case-insensitive.
+
+import { formatMessage, getMessages, type Messages } from '../i18n/messages'
+
+export const MAX_DICE_PER_TERM = 100
+export const MAX_SIDES = 1000
+export const MAX_TERMS = 20
+export const MAX_CONSTANT = 100_000
+
+export type KeepMode = 'kh' | 'kl' | 'dh' | 'dl'
+
+export interface DiceTerm {
+  kind: 'dice'
+  sign: 1 | -1
+  count: number
+  sides: number
+  keep: { mode: KeepMode; count: number } | null
+  explode: boolean
+}
+
+export interface ConstantTerm {
+  kind: 'constant'
+  sign: 1 | -1
+  value: number
+}
+
+export type Term = DiceTerm | ConstantTerm
+
+/**
+ * normal        plain sum
+ * advantage     the d20 is rolled twice, higher kept
+ * disadvantage  the d20 is rolled twice, lower kept
+ * cypher        single d20, annotated with Cypher System special results
+ */
+export type RollMode = 'normal' | 'advantage' | 'disadvantage' | 'cypher'
+
+export interface ParsedRoll {
+  terms: Term[]
+  mode: RollMode
+  /** Canonical spelling, e.g. " 1D20 + 5  ADV" → "1d20+5 adv". */
+  notation: string
+}
+
+/** Looked up in the `dice.errors` catalog, so the roller can explain in the page's language. */
+export type DiceErrorCode =
+  | 'empty'
+  | 'unexpected-character'
+  | 'unexpected-end'
+  | 'number-too-large'
+  | 'constant-too-large'
+  | 'no-dice'
+  | 'too-many-dice'
+  | 'missing-sides'
+  | 'no-sides'
+  | 'too-many-sides'
+  | 'too-many-terms'
+  | 'explode-twice'
+  | 'endless-explode'
+  | 'multiple-keep'
+  | 'cannot-keep'
+  | 'cannot-drop'
+  | 'mode-needs-roll'
+  | 'advantage-needs-d20'
+  | 'disadvantage-needs-d20'
+  | 'cypher-needs-d20'
+
+/**
+ * Values for the message's {placeholders}. Positions are 1-based, as
+ * people count. `total` (dice in the term) becomes the message's {dice},
+ * "1 die" / "4 dice", from the catalog's `dice.diceCount`.
+ */
+export type DiceErrorParams = Record<string, string | number>
+
+/** A DiceSyntaxError's message in one locale's words. */
+export function formatDiceError(
+  { code, params }: { code: DiceErrorCode; params: DiceErrorParams },
+  t: Messages['dice'],
+): string {
+  const values = { ...params }
+  if (typeof params.total === 'number') {
+    values.dice = formatMessage(params.total === 1 ? t.diceCount.one : t.diceCount.other, { count: params.total })
+  }
+  return formatMessage(t.errors[code], values)
+}
+
+export class DiceSyntaxError extends Error {
+  readonly code: DiceErrorCode
+  readonly params: DiceErrorParams
+  /** Offset into the whitespace-stripped expression, or null for whole-input problems. */
+  readonly position: number | null
+
+  /** `message` is the English text; use formatDiceError for the reader's language. */
+  constructor(code: DiceErrorCode, params: DiceErrorParams = {}, position: number | null = null) {
+    super(formatDiceError({ code, params }, getMessages('en').dice))
+    this.name = 'DiceSyntaxError'
+    this.code = code
+    this.params = params
+    this.position = position
+  }
+}
+
+const MODE_KEYWORDS: Record<string, RollMode> = {
+  adv: 'advantage',
+  advantage: 'advantage',
+  dis: 'disadvantage',
+  disadvantage: 'disadvantage',
+  cypher: 'cypher',
+}
+
+const MODE_SUFFIX: Record<RollMode, string> = {
+  normal: '',
+  advantage: 'adv',
+  disadvantage: 'dis',
+  cypher: 'cypher',
+}
+
+class Cursor {
+  pos = 0
+  constructor(readonly src: string) {}
+
+  peek(offset = 0): string {
+    return this.src[this.pos + offset] ?? ''
+  }
+
+  done(): boolean {
+    return this.pos >= this.src.length
+  }
+
+  /** Reads a run of digits, or null if there isn't one here. */
+  integer(): number | null {
+    const start = this.pos
+    while (/[0-9]/.test(this.peek())) this.pos++
+    if (this.pos === start) return null
+    const digits = this.src.slice(start, this.pos)
+    if (digits.length > 7) {
+      throw new DiceSyntaxError('number-too-large', { number: digits }, start)
+    }
+    return Number(digits)
+  }
+
+  unexpected(): DiceSyntaxError {
+    const char = this.peek()
+    return char
+      ? new DiceSyntaxError('unexpected-character', { character: char, position: this.pos + 1 }, this.pos)
+      : new DiceSyntaxError('unexpected-end', {}, this.pos)
+  }
+}
+
+function parseModifiers(cur: Cursor, term: DiceTerm) {
+  for (;;) {
+    const start = cur.pos
+    const c = cur.peek()
+
+    if (c === '!') {
+      if (term.explode) throw new DiceSyntaxError('explode-twice', { position: start + 1 }, start)
+      cur.pos++
+      term.explode = true
+      continue
+    }
+
+    let mode: KeepMode | null = null
+    const two = c + cur.peek(1)
+    if (two === 'kh' || two === 'kl' || two === 'dh' || two === 'dl') {
+      mode = two
+      cur.pos += 2
+    } else if (c === 'k') {
+      mode = 'kh'
+      cur.pos += 1
+    } else if (c === 'd') {
+      mode = 'dl'
+      cur.pos += 1
+    }
+    if (!mode) return
+
+    if (term.keep) {
+      throw new DiceSyntaxError('multiple-keep', { position: start + 1 }, start)
+    }
+    const n = cur.integer() ?? 1
+    const keeping = mode === 'kh' || mode === 'kl'
+    if (keeping && (n < 1 || n > term.count)) {
+      throw new DiceSyntaxError('cannot-keep', { keep: n, total: term.count, position: start + 1 }, start)
+    }
+    if (!keeping && (n < 1 || n >= term.count)) {
+      throw new DiceSyntaxError('cannot-drop', { drop: n, total: term.count, position: start + 1 }, start)
+    }
+    term.keep = { mode, count: n }
+  }
+}
+
+function parseTerm(cur: Cursor, sign: 1 | -1): Term {
+  const start = cur.pos
+  const leading = cur.integer()
+
+  if (cur.peek() !== 'd') {
+    if (leading === null) throw cur.unexpected()
+    if (leading > MAX_CONSTANT) {
+      throw new DiceSyntaxError('constant-too-large', { value: leading, max: MAX_CONSTANT }, start)
+    }
+    return { kind: 'constant', sign, value: leading }
+  }
+
+  cur.pos++ // 'd'
+  const count = leading ?? 1
+  if (count < 1) throw new DiceSyntaxError('no-dice', { position: start + 1 }, start)
+  if (count > MAX_DICE_PER_TERM) {
+    throw new DiceSyntaxError('too-many-dice', { count, max: MAX_DICE_PER_TERM }, start)
+  }
+
+  let sides: number
+  if (cur.peek() === '%') {
+    cur.pos++
+    sides = 100
+  } else {
+    const n = cur.integer()
+    if (n === null) {
+      throw new DiceSyntaxError('missing-sides', { position: cur.pos + 1 }, cur.pos)
+    }
+    sides = n
+  }
+  if (sides < 1) throw new DiceSyntaxError('no-sides', { position: start + 1 }, start)
+  if (sides > MAX_SIDES) {
+    throw new DiceSyntaxError('too-many-sides', { sides, max: MAX_SIDES }, start)
+  }
+
+  const term: DiceTerm = { kind: 'dice', sign, count, sides, keep: null, explode: false }
+  parseModifiers(cur, term)
+  if (term.explode && sides < 2) {
+    throw new DiceSyntaxError('endless-explode', { sides, position: start + 1 }, start)
+  }
+  return term
+}
+
+function parseExpression(src: string): Term[] {
+  const cur = new Cursor(src)
+  const terms: Term[] = []
+
+  let sign: 1 | -1 = 1
+  if (cur.peek() === '+' || cur.peek() === '-') {
+    sign = cur.peek() === '-' ? -1 : 1
+    cur.pos++
+  }
+  terms.push(parseTerm(cur, sign))
+
+  while (!cur.done()) {
+    const op = cur.peek()
+    if (op !== '+' && op !== '-') throw cur.unexpected()
+    cur.pos++
+    terms.push(parseTerm(cur, op === '-' ? -1 : 1))
+    if (terms.length > MAX_TERMS) {
+      throw new DiceSyntaxError('too-many-terms', { max: MAX_TERMS }, cur.pos)
+    }
+  }
+  return terms
+}
+
+function formatTerm(term: Term, index: number): string {
+  const sign = term.sign === -1 ? '-' : index > 0 ? '+' : ''
+  if (term.kind === 'constant') return `${sign}${term.value}`
+  const keep = term.keep ? `${term.keep.mode}${term.keep.count}` : ''
+  return `${sign}${term.count}d${term.sides}${term.explode ? '!' : ''}${keep}`
+}
+
+/** Index of the lone d20 that advantage/disadvantage/cypher apply to. */
+function findD20(terms: Term[]): number {
+  const index = terms.findIndex(t => t.kind === 'dice' && t.sides === 20)
+  const d20 = terms[index]
+  if (index === -1 || d20.kind !== 'dice' || d20.count !== 1 || d20.keep || d20.explode) {
+    return -1
+  }
+  return index
+}
+
+export function parseRoll(input: string): ParsedRoll {
+  const words = input.trim().toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) throw new DiceSyntaxError('empty')
+
+  let mode: RollMode = 'normal'
+  const last = words[words.length - 1]
+  if (last in MODE_KEYWORDS) {
+    mode = MODE_KEYWORDS[last]
+    words.pop()
+  }
+
+  let expression = words.join('')
+  if (!expression) {
+    if (mode !== 'cypher') {
+      throw new DiceSyntaxError('mode-needs-roll', { mode: last })
+    }
+    expression = '1d20'
+  }
+
+  const terms = parseExpression(expression)
+
+  if (mode !== 'normal' && findD20(terms) === -1) {
+    throw new DiceSyntaxError(
+      mode === 'cypher' ? 'cypher-needs-d20' : mode === 'advantage' ? 'advantage-needs-d20' : 'disadvantage-needs-d20',
+    )
+  }
+
+  const notation = terms.map(formatTerm).join('') + (mode === 'normal' ? '' : ` ${MODE_SUFFIX[mode]}`)
+  return { terms, mode, notation }
+}
@@ -0,0 +1,36 @@
+// Seeded randomness so a /roll permalink always shows the same result.
+// Not cryptographic — it only has to be reproducible and evenly spread.
+
+export type Rng = () => number
+
+// xmur3: string → 32-bit seed.
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507)
+  h = Math.imul(h ^ (h >>> 13), 3266489909)
+  return (h ^= h >>> 16) >>> 0
+}
+
+/** mulberry32 generator seeded from an arbitrary string; yields [0, 1). */
+export function createRng(seed: string): Rng {
+  let a = hashSeed(seed)
+  return () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'
+
+/** Short, URL-safe seed for a new permalink. */
+export function randomSeed(length = 8): string {
+  const bytes = new Uint8Array(length)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => SEED_ALPHABET[b % SEED_ALPHABET.length]).join('')
+}
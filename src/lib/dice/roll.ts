@@ -0,0 +1,145 @@
+import { parseRoll, type DiceTerm, type ParsedRoll, type Term } from './parse'
+import { createRng, type Rng } from './random'
+
+// Cap on extra dice from explosions per term, so a d2! can't spin forever
+// on a lucky seed.
+const MAX_EXPLOSIONS = 100
+
+export interface DieResult {
+  value: number
+  /** False when dropped by a keep/drop modifier (or advantage). */
+  kept: boolean
+  /** True when this die rolled max and added another die. */
+  exploded: boolean
+}
+
+export interface TermResult {
+  term: Term
+  /** Empty for constants. */
+  dice: DieResult[]
+  /** Signed contribution to the total. */
+  subtotal: number
+}
+
+export type CypherEffect = 'gm-intrusion' | 'damage-1' | 'damage-2' | 'minor-effect' | 'major-effect'
+
+export interface RollResult {
+  notation: string
+  seed: string
+  mode: ParsedRoll['mode']
+  terms: TermResult[]
+  total: number
+  /** The kept d20 face for adv/dis/cypher rolls. */
+  natural: number | null
+  cypherEffect: CypherEffect | null
+}
+
+export const CYPHER_EFFECT_LABEL: Record<CypherEffect, string> = {
+  'gm-intrusion': 'GM intrusion',
+  'damage-1': '+1 damage',
+  'damage-2': '+2 damage',
+  'minor-effect': 'Minor effect',
+  'major-effect': 'Major effect',
+}
+
+function cypherEffect(natural: number): CypherEffect | null {
+  switch (natural) {
+    case 1: return 'gm-intrusion'
+    case 17: return 'damage-1'
+    case 18: return 'damage-2'
+    case 19: return 'minor-effect'
+    case 20: return 'major-effect'
+    default: return null
+  }
+}
+
+function rollDie(rng: Rng, sides: number): number {
+  return 1 + Math.floor(rng() * sides)
+}
+
+function rollDice(rng: Rng, term: DiceTerm): DieResult[] {
+  const dice: DieResult[] = []
+  let explosions = 0
+  for (let i = 0; i < term.count; i++) {
+    let value = rollDie(rng, term.sides)
+    while (term.explode && value === term.sides && explosions < MAX_EXPLOSIONS) {
+      dice.push({ value, kept: true, exploded: true })
+      explosions++
+      value = rollDie(rng, term.sides)
+    }
+    dice.push({ value, kept: true, exploded: false })
+  }
+
+  if (term.keep) {
+    // Rank indices by value (stable on ties) and mark the losers dropped.
+    const order = dice.map((d, i) => i).sort((a, b) => dice[a].value - dice[b].value || a - b)
+    const { mode, count } = term.keep
+    const dropped =
+      mode === 'kh' ? order.slice(0, dice.length - count)
+      : mode === 'kl' ? order.slice(count)
+      : mode === 'dh' ? order.slice(dice.length - count)
+      : order.slice(0, count)
+    for (const i of dropped) dice[i].kept = false
+  }
+  return dice
+}
+
+/** Advantage/disadvantage are just 2d20kh1/2d20kl1 on the lone d20. */
+function applyMode(parsed: ParsedRoll): Term[] {
+  if (parsed.mode !== 'advantage' && parsed.mode !== 'disadvantage') return parsed.terms
+  let applied = false
+  return parsed.terms.map(term => {
+    if (applied || term.kind !== 'dice' || term.sides !== 20) return term
+    applied = true
+    return { ...term, count: 2, keep: { mode: parsed.mode === 'advantage' ? 'kh' : 'kl', count: 1 } }
+  })
+}
+
+/** Rolls an already-parsed expression. Same parsed roll + seed ⇒ same result. */
+export function evaluateRoll(parsed: ParsedRoll, seed: string): RollResult {
+  const rng = createRng(`${parsed.notation}|${seed}`)
+
+  const terms: TermResult[] = applyMode(parsed).map(term => {
+    if (term.kind === 'constant') return { term, dice: [], subtotal: term.sign * term.value }
+    const dice = rollDice(rng, term)
+    const sum = dice.filter(d => d.kept).reduce((acc, d) => acc + d.value, 0)
+    return { term, dice, subtotal: term.sign * sum }
+  })
+
+  let natural: number | null = null
+  if (parsed.mode !== 'normal') {
+    const d20 = terms.find(t => t.term.kind === 'dice' && t.term.sides === 20)
+    natural = d20?.dice.find(d => d.kept)?.value ?? null
+  }
+
+  return {
+    notation: parsed.notation,
+    seed,
+    mode: parsed.mode,
+    terms,
+    total: terms.reduce((acc, t) => acc + t.subtotal, 0),
+    natural,
+    cypherEffect: parsed.mode === 'cypher' && natural !== null ? cypherEffect(natural) : null,
+  }
+}
+
+/** Parses and rolls in one go. Throws DiceSyntaxError for bad notation. */
+export function roll(input: string, seed: string): RollResult {
+  return evaluateRoll(parseRoll(input), seed)
+}
+
+/** One-line breakdown, e.g. `4d6kh3 [6, 5, (2), 4] = 15`. Dropped dice in parens. */
+export function describeRoll(result: RollResult): string {
+  const parts = result.terms.map((t, i) => {
+    const sign = t.term.sign === -1 ? '- ' : i > 0 ? '+ ' : ''
+    if (t.term.kind === 'constant') return `${sign}${t.term.value}`
+    const faces = t.dice.map(d => (d.kept ? `${d.value}${d.exploded ? '!' : ''}` : `(${d.value})`))
+    return `${sign}[${faces.join(', ')}]`
+  })
+  return `${parts.join(' ')} = ${result.total}`
+}
+
+/** Path for a result's permalink page. */
+export function rollPermalink(notation: string, seed: string): string {
+  return `/roll/${encodeURIComponent(notation)}?seed=${encodeURIComponent(seed)}`
+}
@@ -0,0 +1,67 @@
+// Public community stats for the homepage Discord card, resolved from the
+// invite code through Discord's unauthenticated invite endpoint. No bot
+// token involved — the counts are the same ones Discord shows in an invite
+// embed.
+
+import { DISCORD_API_URL } from './oauth'
+
+export const DISCORD_INVITE_URL = 'https://discord.gg/D6vVANEJ3w'
+
+// Counts are approximate on Discord's side anyway; refreshing every few
+// minutes is plenty and keeps us well clear of invite-endpoint rate limits.
+export const INVITE_STATS_REVALIDATE_S = 300
+
+export interface DiscordInviteStats {
+  guildId: string
+  guildName: string
+  memberCount: number
+  onlineCount: number
+}
+
+interface InviteResponse {
+  guild?: { id?: string; name?: string }
+  approximate_member_count?: number
+  approximate_presence_count?: number
+}
+
+/** `https://discord.gg/abc123` → `abc123`. */
+export function inviteCode(inviteUrl: string): string {
+  return new URL(inviteUrl).pathname.split('/').filter(Boolean).pop() ?? ''
+}
+
+/**
+ * Resolves invite counts, cached through Next's fetch cache. Returns null
+ * on any upstream failure so callers can render without stats instead of
+ * erroring.
+ */
+export async function getDiscordInviteStats(
+  inviteUrl = DISCORD_INVITE_URL,
+): Promise<DiscordInviteStats | null> {
+  try {
+    const res = await fetch(
+      `${DISCORD_API_URL}/invites/${encodeURIComponent(inviteCode(inviteUrl))}?with_counts=true`,
+      {
+        signal: AbortSignal.timeout(5000),
+        next: { revalidate: INVITE_STATS_REVALIDATE_S },
+      },
+    )
+    if (!res.ok) return null
+
+    const data: InviteResponse = await res.json()
+    if (
+      typeof data.approximate_member_count !== 'number' ||
+      typeof data.approximate_presence_count !== 'number'
+    ) {
+      return null
+    }
+
+    return {
+      guildId: data.guild?.id ?? '',
+      guildName: data.guild?.name ?? '',
+      memberCount: data.approximate_member_count,
+      onlineCount: data.approximate_presence_count,
+    }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,25 @@
+import { buildPermissions, type DiscordPermission } from './permissions'
+
+// Both overridable so `npm run mock:upstream` can stand in for Discord
+// locally — the consent screen as well as the REST API.
+export const DISCORD_AUTHORIZE_URL = process.env.DISCORD_AUTHORIZE_URL ?? 'https://discord.com/oauth2/authorize'
+
+export const DISCORD_API_URL = process.env.DISCORD_API_URL ?? 'https://discord.com/api/v10'
+
+export interface BotInstallOptions {
+  clientId: string
+  scopes: readonly string[]
+  permissions: readonly DiscordPermission[]
+  /** Pre-selects a server in Discord's install dialog. */
+  guildId?: string
+}
+
+/** Builds the "Add to Server" authorize URL for a bot install. */
+export function buildBotInstallUrl({ clientId, scopes, permissions, guildId }: BotInstallOptions): string {
+  const url = new URL(DISCORD_AUTHORIZE_URL)
+  url.searchParams.set('client_id', clientId)
+  url.searchParams.set('scope', scopes.join(' '))
+  url.searchParams.set('permissions', buildPermissions(permissions).toString())
+  if (guildId) url.searchParams.set('guild_id', guildId)
+  return url.toString()
+}
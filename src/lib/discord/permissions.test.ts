@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { buildBotInstallUrl } from './oauth'
+import { buildPermissions, DiscordPermissions, permissionNames } from './permissions'
+import { RESESH_CLIENT_ID, RESESH_PERMISSIONS, RESESH_PERMISSIONS_ADDED, RESESH_SCOPES } from './resesh'
+
+describe('buildPermissions', () => {
+  // Bit positions from Discord's permission docs for every flag ReSesh asks for.
+  it.each([
+    ['ViewChannel', 10, '1024'],
+    ['SendMessages', 11, '2048'],
+    ['Connect', 20, '1048576'],
+    ['Speak', 21, '2097152'],
+  ] as const)('%s is bit %i', (flag, bit, decimal) => {
+    expect(DiscordPermissions[flag]).toBe(BigInt(1) << BigInt(bit))
+    expect(buildPermissions([flag]).toString()).toBe(decimal)
+  })
+
+  it('is 0 for no flags', () => {
+    expect(buildPermissions([])).toBe(BigInt(0))
+  })
+
+  it('ignores repeated flags', () => {
+    expect(buildPermissions(['Speak', 'Speak'])).toBe(DiscordPermissions.Speak)
+  })
+
+  it('keeps flags above bit 31 intact', () => {
+    expect(buildPermissions(['SendPolls']).toString()).toBe('562949953421312')
+    expect(buildPermissions(['UseExternalApps', 'ViewChannel']).toString()).toBe('1125899906843648')
+  })
+
+  it('round-trips through permissionNames', () => {
+    expect(permissionNames(buildPermissions(RESESH_PERMISSIONS))).toEqual(['ViewChannel', 'SendMessages', 'Connect', 'Speak'])
+  })
+})
+
+describe('ReSesh install permissions', () => {
+  // Changing this number changes what every server is asked to grant the
+  // bot. Update it deliberately, and say so in the install copy.
+  it('requests exactly 3148800', () => {
+    expect(buildPermissions(RESESH_PERMISSIONS).toString()).toBe('3148800')
+  })
+
+  it('adds View Channel to the old 3147776 link', () => {
+    expect(permissionNames(BigInt(3147776))).toEqual(['SendMessages', 'Connect', 'Speak'])
+    expect(RESESH_PERMISSIONS_ADDED).toEqual(['ViewChannel'])
+  })
+
+  it('puts the bitfield in the install URL', () => {
+    const url = new URL(
+      buildBotInstallUrl({ clientId: RESESH_CLIENT_ID, scopes: RESESH_SCOPES, permissions: RESESH_PERMISSIONS }),
+    )
+    expect(url.searchParams.get('permissions')).toBe('3148800')
+    expect(url.searchParams.get('scope')).toBe('bot applications.commands')
+  })
+})
@@ -0,0 +1,76 @@
+// Discord permission flags by bit position, named as in discord.js so they
+// can be cross-checked against the Developer Portal. Permissions are a
+// 64-bit field and several flags sit above 2^31, so everything is BigInt —
+// JS bitwise ops on plain numbers would silently truncate.
+//
+// https://discord.com/developers/docs/topics/permissions#permissions-bitwise-permission-flags
+
+const FLAG_BITS = {
+  CreateInstantInvite: 0,
+  KickMembers: 1,
+  BanMembers: 2,
+  Administrator: 3,
+  ManageChannels: 4,
+  ManageGuild: 5,
+  AddReactions: 6,
+  ViewAuditLog: 7,
+  PrioritySpeaker: 8,
+  Stream: 9,
+  ViewChannel: 10,
+  SendMessages: 11,
+  SendTTSMessages: 12,
+  ManageMessages: 13,
+  EmbedLinks: 14,
+  AttachFiles: 15,
+  ReadMessageHistory: 16,
+  MentionEveryone: 17,
+  UseExternalEmojis: 18,
+  ViewGuildInsights: 19,
+  Connect: 20,
+  Speak: 21,
+  MuteMembers: 22,
+  DeafenMembers: 23,
+  MoveMembers: 24,
+  UseVAD: 25,
+  ChangeNickname: 26,
+  ManageNicknames: 27,
+  ManageRoles: 28,
+  ManageWebhooks: 29,
+  ManageGuildExpressions: 30,
+  UseApplicationCommands: 31,
+  RequestToSpeak: 32,
+  ManageEvents: 33,
+  ManageThreads: 34,
+  CreatePublicThreads: 35,
+  CreatePrivateThreads: 36,
+  UseExternalStickers: 37,
+  SendMessagesInThreads: 38,
+  UseEmbeddedActivities: 39,
+  ModerateMembers: 40,
+  ViewCreatorMonetizationAnalytics: 41,
+  UseSoundboard: 42,
+  CreateGuildExpressions: 43,
+  CreateEvents: 44,
+  UseExternalSounds: 45,
+  SendVoiceMessages: 46,
+  SendPolls: 49,
+  UseExternalApps: 50,
+} as const
+
+export type DiscordPermission = keyof typeof FLAG_BITS
+
+export const DiscordPermissions = Object.fromEntries(
+  Object.entries(FLAG_BITS).map(([name, bit]) => [name, BigInt(1) << BigInt(bit)]),
+) as Record<DiscordPermission, bigint>
+
+/** ORs the named flags into a single permission bitfield. */
+export function buildPermissions(flags: readonly DiscordPermission[]): bigint {
+  return flags.reduce((bits, flag) => bits | DiscordPermissions[flag], BigInt(0))
+}
+
+/** Expands a bitfield back into flag names — handy when auditing an old install link. */
+export function permissionNames(bits: bigint): DiscordPermission[] {
+  return (Object.keys(FLAG_BITS) as DiscordPermission[]).filter(
+    flag => (bits & DiscordPermissions[flag]) !== BigInt(0),
+  )
+}
@@ -0,0 +1,29 @@
+import { type DiscordPermission, DiscordPermissions } from './permissions'
+
+// Prod ReSesh application ID. Public (it's in every install link), but
+// overridable so staging/dev bots can share the same /resesh/install route.
+export const RESESH_CLIENT_ID = process.env.RESESH_DISCORD_CLIENT_ID ?? '1504164101553656028'
+
+export const RESESH_SCOPES = ['bot', 'applications.commands'] as const
+
+// The minimum a voice-channel recording bot needs: see and join the voice
+// channel, hear it, and post the live transcript back as messages. Change
+// this list rather than pasting a new integer from the Developer Portal.
+export const RESESH_PERMISSIONS = [
+  'ViewChannel',
+  'Connect',
+  'Speak',
+  'SendMessages',
+] as const satisfies readonly DiscordPermission[]
+
+export type ReseshPermission = (typeof RESESH_PERMISSIONS)[number]
+
+// What the hand-pasted install link asked for before RESESH_PERMISSIONS
+// (Send Messages, Connect, Speak). Servers that added ReSesh with it lack
+// whatever has been added since, so the install CTA lists those.
+const LEGACY_RESESH_PERMISSIONS = BigInt(3147776)
+
+/** Requested now but not by the old install link — 3148800 vs 3147776. */
+export const RESESH_PERMISSIONS_ADDED: readonly ReseshPermission[] = RESESH_PERMISSIONS.filter(
+  flag => (LEGACY_RESESH_PERMISSIONS & DiscordPermissions[flag]) === BigInt(0),
+)
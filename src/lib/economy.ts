@@ -0,0 +1,92 @@
+import { formatNumber } from './i18n/format'
+import { DEFAULT_LOCALE, type Locale } from './i18n/locales'
+import type { Rates } from './rates'
+import { SERVER_KINDS } from './servers'
+
+// The Crit-Fumble economy in one place. Homepage copy and the calculator
+// both read from here so the prose can't drift from the math. The constants
+// are the published rates from the homepage copy and mirror Core's wallet
+// config — change them there first, then here. Metered hourly rates and the
+// SC → CC conversion aren't published, so they come from Core at request
+// time (lib/rates) and are passed in.
+//
+//   CT  Compute Tokens — metered spend for ReSesh and server hosting
+//   CC  Crit-Coins     — bought with money, spent on CT or tipped
+//   SC  Story Credit   — what a creator receives when tipped CC
+
+export type Currency = 'CT' | 'CC' | 'SC' | 'USD'
+
+/** 1 CC buys this many CT. */
+export const CT_PER_CC = 10_000
+
+/** Monthly CT grant on the Free/Basic plan. */
+export const FREE_MONTHLY_CT = 2_500
+
+/**
+ * USD a creator cashes out per SC through Stripe Connect — what a tipped CC
+ * is worth to them. Spending SC on Crit-Coins goes at a different rate,
+ * ccPerSc, which comes from Core (lib/rates).
+ */
+export const USD_PER_SC = 0.25
+
+export interface MeteredActivity {
+  id: string
+  label: string
+  ctPerHour: number
+}
+
+/**
+ * Hourly CT burn for the things players actually run, as far as Core has
+ * told us. Hosting rates are per running server, not per player. Empty
+ * while Core is unreachable.
+ */
+export function meteredActivities(rates: Rates): MeteredActivity[] {
+  return [
+    ...(rates.reseshCtPerHour === null
+      ? []
+      : [{ id: 'resesh', label: 'ReSesh recording + transcription', ctPerHour: rates.reseshCtPerHour }]),
+    ...SERVER_KINDS.flatMap(kind => {
+      const rate = rates.servers[kind.slug]
+      return rate ? [{ id: kind.slug, label: `${kind.name} hosting`, ctPerHour: rate.ctPerHour }] : []
+    }),
+  ]
+}
+
+export function ccToCt(cc: number): number {
+  return cc * CT_PER_CC
+}
+
+export function ctToCc(ct: number): number {
+  return ct / CT_PER_CC
+}
+
+export function scToUsd(sc: number): number {
+  return sc * USD_PER_SC
+}
+
+export function scToCc(sc: number, ccPerSc: number): number {
+  return sc * ccPerSc
+}
+
+export function ctForHours(activity: MeteredActivity, hours: number): number {
+  return Math.ceil(activity.ctPerHour * hours)
+}
+
+/**
+ * Whole CC a player has to buy to cover `ct`, after spending whatever is
+ * left of their monthly grant. CC can't be bought fractionally, so this
+ * rounds up.
+ */
+export function ccNeededFor(ct: number, grantRemaining = 0): number {
+  const shortfall = Math.max(0, ct - grantRemaining)
+  return Math.ceil(ctToCc(shortfall))
+}
+
+/**
+ * "2,500 CT" / "$0.25" in the reader's conventions ("2.500 CT", "US$ 0,25"
+ * in Portuguese). Prices are always USD — only the formatting is localized.
+ */
+export function formatAmount(amount: number, currency: Currency, locale: Locale = DEFAULT_LOCALE): string {
+  if (currency === 'USD') return formatNumber(amount, locale, { style: 'currency', currency: 'USD' })
+  return `${formatNumber(amount, locale, { maximumFractionDigits: 2 })} ${currency}`
+}
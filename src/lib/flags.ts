@@ -0,0 +1,114 @@
+// Feature flags for homepage surfaces that ship dark and launch later.
+// Each flag reads from its own env var so Vercel can set it per environment
+// (e.g. on for Preview, off for Production). An optional remote JSON
+// document at FEATURE_FLAGS_URL overrides env on top, so a launch can be
+// flipped without a redeploy.
+//
+// Precedence: remote JSON > env var > default.
+
+interface FlagDefinition {
+  env: string
+  default: boolean
+  description: string
+}
+
+const FLAG_DEFINITIONS = {
+  reseshInstall: {
+    env: 'FEATURE_RESESH_INSTALL',
+    default: false,
+    description: '"Add ReSesh to your server" CTA on the ReSesh card',
+  },
+  coreStatusButton: {
+    env: 'FEATURE_CORE_STATUS_BUTTON',
+    default: true,
+    description: 'Live Enter Core / Under Maintenance button on the CFG Core card',
+  },
+  doAffiliateBadge: {
+    env: 'FEATURE_DO_AFFILIATE_BADGE',
+    default: false,
+    description: 'Powered-by-DigitalOcean affiliate badge on the CFG Core card',
+  },
+  subscribeCta: {
+    env: 'FEATURE_SUBSCRIBE_CTA',
+    default: false,
+    description: '"Subscribe Now" on the Compute Tokens card',
+  },
+  buyCritCoinsCta: {
+    env: 'FEATURE_BUY_CRIT_COINS_CTA',
+    default: false,
+    description: '"Buy Crit-Coins" on the Crit-Coins card',
+  },
+  seeBalanceCta: {
+    env: 'FEATURE_SEE_BALANCE_CTA',
+    default: false,
+    description: '"See Balance" on the Story Credit card',
+  },
+} as const satisfies Record<string, FlagDefinition>
+
+export type FeatureFlag = keyof typeof FLAG_DEFINITIONS
+
+export type FeatureFlags = Record<FeatureFlag, boolean>
+
+export const FEATURE_FLAG_NAMES = Object.keys(FLAG_DEFINITIONS) as FeatureFlag[]
+
+// How often the remote override document is re-read.
+const REMOTE_REVALIDATE_S = 60
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  switch (value?.trim().toLowerCase()) {
+    case 'true':
+    case '1':
+    case 'on':
+      return true
+    case 'false':
+    case '0':
+    case 'off':
+      return false
+    default:
+      return undefined
+  }
+}
+
+function envFlags(): FeatureFlags {
+  return Object.fromEntries(
+    FEATURE_FLAG_NAMES.map(name => {
+      const def = FLAG_DEFINITIONS[name]
+      return [name, parseBoolean(process.env[def.env]) ?? def.default]
+    }),
+  ) as FeatureFlags
+}
+
+/**
+ * Fetches the remote override document. Only known flag names with boolean
+ * values are taken; anything else is ignored so a typo in the JSON can't
+ * switch a surface on by accident. Failures fall back to no overrides.
+ */
+async function remoteOverrides(): Promise<Partial<FeatureFlags>> {
+  const url = process.env.FEATURE_FLAGS_URL
+  if (!url) return {}
+
+  try {
+    const res = await fetch(url, {
+      signal: AbortSignal.timeout(3000),
+      next: { revalidate: REMOTE_REVALIDATE_S },
+    })
+    if (!res.ok) return {}
+    const body: unknown = await res.json()
+    if (typeof body !== 'object' || body === null) return {}
+
+    const overrides: Partial<FeatureFlags> = {}
+    for (const name of FEATURE_FLAG_NAMES) {
+      const value = (body as Record<string, unknown>)[name]
+      if (typeof value === 'boolean') overrides[name] = value
+    }
+    return overrides
+  } catch (err) {
+    console.error('[flags] failed to load remote feature flags', err)
+    return {}
+  }
+}
+
+/** Resolves every flag for the current environment. Server-only. */
+export async function getFeatureFlags(): Promise<FeatureFlags> {
+  return { ...envFlags(), ...(await remoteOverrides()) }
+}
@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { isKvConfigured, kvPipeline } from '../kv'
+import type { HealthReport, ServiceId, ServiceStatus } from './types'
+
+// Probe history backing /status, kept as aggregates rather than raw probe
+// rounds so reads stay small however often the probes run: per UTC day and
+// service, a count of probes in each status, plus the moments a service's
+// status changed (which is all the incident list needs). Backends are
+// swappable: KV (lib/kv) in production, the file adapter for local dev and
+// the memory adapter for previews. Memory history restarts with every cold
+// start and differs between instances, so it says so (`durable: false`)
+// and /status labels its numbers accordingly.
+
+export const HISTORY_RETENTION_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Probes per status; statuses never seen that day are absent. */
+export type StatusCounts = Partial<Record<ServiceStatus, number>>
+
+export interface StatusChange {
+  serviceId: ServiceId
+  status: ServiceStatus
+  at: string
+}
+
+export interface HealthHistory {
+  /** Keyed by UTC date (YYYY-MM-DD), then service. */
+  days: Record<string, Partial<Record<ServiceId, StatusCounts>>>
+  /** Oldest first. */
+  changes: StatusChange[]
+}
+
+export interface HealthHistoryStore {
+  /** False when history only covers this instance since it started. */
+  readonly durable: boolean
+  record(report: HealthReport): Promise<void>
+  /** Days from since's UTC date on, and changes at or after since. */
+  read(since: Date): Promise<HealthHistory>
+}
+
+function retentionCutoff(): number {
+  return Date.now() - HISTORY_RETENTION_DAYS * DAY_MS
+}
+
+function utcDate(time: number | string): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+function utcDatesSince(since: Date, now = new Date()): string[] {
+  const dates: string[] = []
+  for (let t = Date.parse(utcDate(since.getTime())); t <= now.getTime(); t += DAY_MS) dates.push(utcDate(t))
+  return dates
+}
+
+// A service's first probe only counts as a change when it's bad news, so a
+// fresh store doesn't start with a "came online" entry per service.
+function isChange(previous: ServiceStatus | null, status: ServiceStatus): boolean {
+  return previous === null ? status !== 'online' : previous !== status
+}
+
+interface HistoryState extends HealthHistory {
+  /** Each service's status in the latest probe round. */
+  last: Partial<Record<ServiceId, ServiceStatus>>
+}
+
+function emptyState(): HistoryState {
+  return { days: {}, changes: [], last: {} }
+}
+
+function applyReport(state: HistoryState, report: HealthReport): void {
+  const day = (state.days[utcDate(report.checkedAt)] ??= {})
+  for (const { id, status } of report.services) {
+    const counts = (day[id] ??= {})
+    counts[status] = (counts[status] ?? 0) + 1
+    if (isChange(state.last[id] ?? null, status)) state.changes.push({ serviceId: id, status, at: report.checkedAt })
+    state.last[id] = status
+  }
+
+  const cutoff = retentionCutoff()
+  const firstDay = utcDate(cutoff)
+  for (const date of Object.keys(state.days)) if (date < firstDay) delete state.days[date]
+  state.changes = state.changes.filter(c => Date.parse(c.at) >= cutoff)
+}
+
+function readState(state: HistoryState, since: Date): HealthHistory {
+  const firstDay = utcDate(since.getTime())
+  return {
+    days: Object.fromEntries(Object.entries(state.days).filter(([date]) => date >= firstDay)),
+    changes: state.changes.filter(c => Date.parse(c.at) >= since.getTime()),
+  }
+}
+
+export function createMemoryHistoryStore(): HealthHistoryStore {
+  const state = emptyState()
+
+  return {
+    durable: false,
+    async record(report) {
+      applyReport(state, report)
+    },
+    async read(since) {
+      return readState(state, since)
+    },
+  }
+}
+
+/** One JSON document, rewritten on every probe round. Dev only. */
+export function createFileHistoryStore(filePath: string): HealthHistoryStore {
+  async function load(): Promise<HistoryState> {
+    try {
+      return { ...emptyState(), ...(JSON.parse(await fs.readFile(filePath, 'utf8')) as HistoryState) }
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code
+      // Missing, or torn by a crashed dev server — start over.
+      if (code === 'ENOENT' || err instanceof SyntaxError) return emptyState()
+      throw err
+    }
+  }
+
+  return {
+    durable: true,
+    async record(report) {
+      const state = await load()
+      applyReport(state, report)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(state))
+    },
+    async read(since) {
+      return readState(await load(), since)
+    },
+  }
+}
+
+/**
+ * A hash of `<service>:<status>` counters per UTC day, expiring after the
+ * retention window, and a sorted set of status changes trimmed on write.
+ * `SET … GET` swaps in each service's latest status and hands back the
+ * previous one atomically, so concurrent instances don't both log the same
+ * change. A read is one HGETALL per day plus one range over the changes.
+ */
+export function createKvHistoryStore(prefix = 'health'): HealthHistoryStore {
+  const dayKey = (date: string) => `${prefix}:day:${date}`
+  const lastKey = (id: ServiceId) => `${prefix}:last:${id}`
+  const changesKey = `${prefix}:changes`
+
+  return {
+    durable: true,
+    async record(report) {
+      const key = dayKey(utcDate(report.checkedAt))
+      const { services } = report
+      const replies = await kvPipeline<unknown[]>([
+        ...services.map(s => ['HINCRBY', key, `${s.id}:${s.status}`, 1]),
+        ['EXPIRE', key, (HISTORY_RETENTION_DAYS + 1) * 24 * 60 * 60],
+        ...services.map(s => ['SET', lastKey(s.id), s.status, 'GET']),
+      ])
+      const previous = replies.slice(services.length + 1) as (ServiceStatus | null)[]
+
+      const changes = services
+        .filter((s, i) => isChange(previous[i], s.status))
+        .map(({ id, status }): StatusChange => ({ serviceId: id, status, at: report.checkedAt }))
+      if (changes.length === 0) return
+      await kvPipeline([
+        ...changes.map(change => ['ZADD', changesKey, Date.parse(change.at), JSON.stringify(change)]),
+        ['ZREMRANGEBYSCORE', changesKey, '-inf', `(${retentionCutoff()}`],
+      ])
+    },
+    async read(since) {
+      const dates = utcDatesSince(since)
+      const replies = await kvPipeline<unknown[]>([
+        ...dates.map(date => ['HGETALL', dayKey(date)]),
+        ['ZRANGEBYSCORE', changesKey, since.getTime(), '+inf'],
+      ])
+
+      const days: HealthHistory['days'] = {}
+      dates.forEach((date, i) => {
+        // The REST API returns HGETALL as a flat [field, value, …] list.
+        const flat = (replies[i] ?? []) as string[]
+        for (let j = 0; j < flat.length; j += 2) {
+          const split = flat[j].lastIndexOf(':')
+          const id = flat[j].slice(0, split) as ServiceId
+          const status = flat[j].slice(split + 1) as ServiceStatus
+          ;((days[date] ??= {})[id] ??= {})[status] = Number(flat[j + 1])
+        }
+      })
+      const members = replies[dates.length] as string[]
+      return { days, changes: members.map(member => JSON.parse(member) as StatusChange) }
+    },
+  }
+}
+
+let store: HealthHistoryStore | null = null
+
+/**
+ * Backend is picked by HEALTH_HISTORY_STORE ('kv' | 'file' | 'memory').
+ * Defaults to the file adapter in development, and otherwise to KV when
+ * it's configured. Unlike the waitlist and analytics, a missing KV falls
+ * back to memory instead of failing: /status still has to answer "is Core
+ * down?", and the page says the history is only since the last restart.
+ */
+export function getHealthHistoryStore(): HealthHistoryStore {
+  if (store) return store
+
+  const backend =
+    process.env.HEALTH_HISTORY_STORE ??
+    (process.env.NODE_ENV === 'development' ? 'file' : isKvConfigured() ? 'kv' : 'memory')
+
+  store =
+    backend === 'kv'
+      ? createKvHistoryStore()
+      : backend === 'file'
+        ? createFileHistoryStore(
+            process.env.HEALTH_HISTORY_FILE ??
+              path.join(process.cwd(), '.data', 'health-history.json'),
+          )
+        : createMemoryHistoryStore()
+
+  return store
+}
@@ -0,0 +1,97 @@
+import { getHealthHistoryStore } from './history'
+import { SERVICES } from './services'
+import type { HealthReport, ServiceDefinition, ServiceHealth, ServiceStatus } from './types'
+
+// Per-service probe budget. A service that hasn't answered by then is
+// reported offline rather than holding up the whole aggregate.
+const PROBE_TIMEOUT_MS = 5000
+
+// A 2xx slower than this is reported as degraded — reachable, but players
+// will notice.
+const DEGRADED_LATENCY_MS = 1500
+
+// How long an aggregate is reused. The homepage button and /status both hit
+// /api/health, so a traffic spike on www collapses into one probe round per
+// window instead of fanning out to Core per visitor.
+export const HEALTH_CACHE_TTL_MS = 30_000
+
+const STATUS_RANK: Record<ServiceStatus, number> = { online: 0, degraded: 1, offline: 2 }
+
+async function probe(service: ServiceDefinition): Promise<ServiceHealth> {
+  const started = Date.now()
+  let status: ServiceStatus
+  let latencyMs: number | null = null
+
+  try {
+    const res = await fetch(service.healthUrl, {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      cache: 'no-store',
+    })
+    latencyMs = Date.now() - started
+    if (!res.ok) {
+      status = 'offline'
+    } else {
+      // Services may self-report degradation (e.g. Core up, DB slow) via
+      // `{ "status": "degraded" }`; a non-JSON body is just a plain 200.
+      const body = await res.json().catch(() => null)
+      status =
+        body?.status === 'degraded' || latencyMs > DEGRADED_LATENCY_MS ? 'degraded' : 'online'
+    }
+  } catch {
+    status = 'offline'
+  }
+
+  return {
+    id: service.id,
+    name: service.name,
+    status,
+    latencyMs,
+    checkedAt: new Date().toISOString(),
+  }
+}
+
+async function runChecks(): Promise<HealthReport> {
+  const services = await Promise.all(SERVICES.map(probe))
+  const core = services.find(s => s.id === 'core')
+  const status = services.reduce<ServiceStatus>(
+    (worst, s) => (STATUS_RANK[s.status] > STATUS_RANK[worst] ? s.status : worst),
+    'online',
+  )
+
+  return {
+    ok: core !== undefined && core.status !== 'offline',
+    status,
+    checkedAt: new Date().toISOString(),
+    services,
+  }
+}
+
+let cached: { report: HealthReport; expiresAt: number } | null = null
+let inFlight: Promise<HealthReport> | null = null
+
+/**
+ * Returns the current health aggregate, probing every service in parallel
+ * at most once per HEALTH_CACHE_TTL_MS. Concurrent callers during a probe
+ * round share the same in-flight promise.
+ */
+export async function getHealthReport(): Promise<HealthReport> {
+  if (cached && cached.expiresAt > Date.now()) return cached.report
+  if (inFlight) return inFlight
+
+  inFlight = runChecks()
+    .then(report => {
+      cached = { report, expiresAt: Date.now() + HEALTH_CACHE_TTL_MS }
+      // Only fresh probe rounds are recorded, so history density follows
+      // the cache window rather than traffic. A failed write must not take
+      // the health endpoint down with it.
+      getHealthHistoryStore()
+        .record(report)
+        .catch(err => console.error('[health] failed to record probe history', err))
+      return report
+    })
+    .finally(() => {
+      inFlight = null
+    })
+
+  return inFlight
+}
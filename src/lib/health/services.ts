@@ -0,0 +1,29 @@
+import { SERVER_KINDS } from '../servers'
+import type { ServiceDefinition } from './types'
+
+const CORE_URL = process.env.CORE_PUBLIC_URL ?? 'https://core.crit-fumble.com'
+
+// Every service the homepage advertises. ReSesh runs on the DisRecord
+// server; the hostable kinds come from the server catalog and are reported
+// by Core's Server Manager, so their default probes hang off Core. Each URL
+// can be overridden per environment for local stubs or a split deploy.
+export const SERVICES: readonly ServiceDefinition[] = [
+  {
+    id: 'core',
+    name: 'CFG Core',
+    healthUrl: process.env.CORE_HEALTH_URL ?? `${CORE_URL}/health`,
+  },
+  {
+    id: 'resesh',
+    name: 'ReSesh (DisRecord)',
+    healthUrl: process.env.RESESH_HEALTH_URL ?? `${CORE_URL}/health/disrecord`,
+  },
+  // One probe per catalog entry; override with e.g. FOUNDRYVTT_HEALTH_URL.
+  ...SERVER_KINDS.map(kind => ({
+    id: kind.slug,
+    name: kind.name,
+    healthUrl:
+      process.env[`${kind.slug.toUpperCase()}_HEALTH_URL`] ??
+      `${CORE_URL}/health/servers/${kind.slug}`,
+  })),
+]
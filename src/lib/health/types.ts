@@ -0,0 +1,35 @@
+// Shared shapes for the /api/health aggregate. Kept separate from the
+// probe code so client components (CoreStatusButton, /status) can import
+// the types without pulling server-only fetch logic into the bundle.
+
+import type { ServerKindId } from '../servers'
+
+export type ServiceStatus = 'online' | 'degraded' | 'offline'
+
+export type ServiceId = 'core' | 'resesh' | ServerKindId
+
+export interface ServiceDefinition {
+  id: ServiceId
+  name: string
+  /** Absolute URL probed with a GET; any 2xx counts as reachable. */
+  healthUrl: string
+}
+
+export interface ServiceHealth {
+  id: ServiceId
+  name: string
+  status: ServiceStatus
+  /** Round-trip time of the probe, or null when it never got a response. */
+  latencyMs: number | null
+  /** ISO-8601 timestamp of when this probe finished. */
+  checkedAt: string
+}
+
+export interface HealthReport {
+  /** Back-compat flag: true while Core itself is reachable. */
+  ok: boolean
+  /** Worst status across all services. */
+  status: ServiceStatus
+  checkedAt: string
+  services: ServiceHealth[]
+}
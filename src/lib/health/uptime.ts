@@ -0,0 +1,90 @@
+import type { HealthHistory, StatusChange } from './history'
+import type { ServiceId, ServiceStatus } from './types'
+
+export interface UptimeDay {
+  /** UTC calendar date, YYYY-MM-DD. */
+  date: string
+  /** Share of probes that found the service up (online or degraded), or null with no data. */
+  uptime: number | null
+  worst: ServiceStatus | null
+}
+
+export interface Incident {
+  serviceId: ServiceId
+  /** Worst status seen while the incident was open. */
+  status: Exclude<ServiceStatus, 'online'>
+  startedAt: string
+  /** Null while the incident is still ongoing. */
+  resolvedAt: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function isWorse(a: ServiceStatus, b: ServiceStatus | null): boolean {
+  const rank = { online: 0, degraded: 1, offline: 2 }
+  return b === null || rank[a] > rank[b]
+}
+
+const STATUSES: readonly ServiceStatus[] = ['online', 'degraded', 'offline']
+
+/**
+ * One service's daily counts as `days` UTC days ending today, oldest
+ * first, so the /status bar always has a fixed width.
+ */
+export function dailyUptime(history: HealthHistory, serviceId: ServiceId, days: number, now = new Date()): UptimeDay[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const result: UptimeDay[] = []
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(today - i * DAY_MS).toISOString().slice(0, 10)
+    const counts = history.days[date]?.[serviceId] ?? {}
+    const total = STATUSES.reduce((sum, status) => sum + (counts[status] ?? 0), 0)
+    const up = total - (counts.offline ?? 0)
+    const worst = STATUSES.reduce<ServiceStatus | null>(
+      (acc, status) => (counts[status] && isWorse(status, acc) ? status : acc),
+      null,
+    )
+    result.push({ date, uptime: total > 0 ? up / total : null, worst })
+  }
+  return result
+}
+
+/** Overall uptime across the buckets that have data, or null if none do. */
+export function overallUptime(days: UptimeDay[]): number | null {
+  const withData = days.filter(d => d.uptime !== null)
+  if (withData.length === 0) return null
+  return withData.reduce((sum, d) => sum + (d.uptime ?? 0), 0) / withData.length
+}
+
+/**
+ * Folds status changes into incidents. An incident opens when a service
+ * leaves online and resolves when it's back. Newest first.
+ */
+export function deriveIncidents(changes: StatusChange[]): Incident[] {
+  const open = new Map<ServiceId, Incident>()
+  const incidents: Incident[] = []
+
+  for (const change of changes) {
+    const current = open.get(change.serviceId)
+    if (change.status === 'online') {
+      if (current) {
+        current.resolvedAt = change.at
+        open.delete(change.serviceId)
+      }
+      continue
+    }
+    if (current) {
+      if (isWorse(change.status, current.status)) current.status = change.status
+      continue
+    }
+    const incident: Incident = {
+      serviceId: change.serviceId,
+      status: change.status,
+      startedAt: change.at,
+      resolvedAt: null,
+    }
+    open.set(change.serviceId, incident)
+    incidents.push(incident)
+  }
+
+  return incidents.sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
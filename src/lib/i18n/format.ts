@@ -0,0 +1,29 @@
+import { DEFAULT_LOCALE, type Locale, LOCALE_TAGS } from './locales'
+
+// Intl formatting in the reader's conventions ("2,500" / "2.500"). Intl
+// formatters are costly to build, so they're cached per locale and options.
+//
+// Safe to import from client components.
+
+const numberFormats = new Map<string, Intl.NumberFormat>()
+
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE, options: Intl.NumberFormatOptions = {}): string {
+  const key = `${locale}:${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) numberFormats.set(key, (format = new Intl.NumberFormat(LOCALE_TAGS[locale], options)))
+  return format.format(value)
+}
+
+const listFormats = new Map<Locale, Intl.ListFormat>()
+
+/** "a, b and c" / "a, b y c". */
+export function formatList(items: readonly string[], locale: Locale = DEFAULT_LOCALE): string {
+  let format = listFormats.get(locale)
+  if (!format) listFormats.set(locale, (format = new Intl.ListFormat(LOCALE_TAGS[locale], { type: 'conjunction' })))
+  return format.format(items)
+}
+
+/** A date or time; pass `timeZone` in `options` for anything rendered on the server. */
+export function formatDate(date: Date, locale: Locale = DEFAULT_LOCALE, options: Intl.DateTimeFormatOptions = {}): string {
+  return date.toLocaleString(LOCALE_TAGS[locale], options)
+}
@@ -0,0 +1,102 @@
+// Locales and locale-prefixed URLs. English is the default and stays
+// unprefixed, so every existing URL keeps working; other languages live
+// under /es/… and /pt/…. src/proxy.ts strips the prefix, picks the locale
+// (prefix, then the cfg-locale cookie, then Accept-Language) and rewrites
+// the request to app/[locale]/…, so server components read it from the
+// route params (lib/i18n/server).
+//
+// Only pages listed in LOCALIZED_PATHS have translations. A prefixed URL
+// for any other page redirects to the English one, and hreflang alternates
+// are only emitted for translated pages.
+//
+// Safe to import from client components.
+
+export const LOCALES = ['en', 'es', 'pt'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/** The visitor's explicit choice from the language switcher. */
+export const LOCALE_COOKIE = 'cfg-locale'
+
+/** Native names, for the language switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+}
+
+/**
+ * BCP 47 tags for Intl number/date formatting. The group and its prices
+ * are US-based, so Spanish uses US conventions; Portuguese-speaking
+ * members are mostly Brazilian.
+ */
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US',
+  pt: 'pt-BR',
+}
+
+/** Pages with a translation in every locale. Add a path once its copy is in the catalogs. */
+export const LOCALIZED_PATHS: ReadonlySet<string> = new Set(['/', '/pricing'])
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+function splitHref(href: string): [path: string, rest: string] {
+  const i = href.search(/[?#]/)
+  return i === -1 ? [href, ''] : [href.slice(0, i), href.slice(i)]
+}
+
+/**
+ * The language an internal href renders in when followed from a `locale`
+ * page: its prefix if it has one, otherwise the page's own locale for a
+ * translated page and English for the rest.
+ */
+export function hrefLocale(href: string, locale: Locale): Locale {
+  const { locale: prefix, path } = splitLocalePath(splitHref(href)[0])
+  if (prefix) return prefix
+  return LOCALIZED_PATHS.has(path) ? locale : DEFAULT_LOCALE
+}
+
+/** `/pricing` → `/es/pricing` for a translated page; untranslated pages are left as they are. */
+export function localePath(locale: Locale, href: string): string {
+  const [path, rest] = splitHref(href)
+  if (locale === DEFAULT_LOCALE || !LOCALIZED_PATHS.has(path)) return href
+  return `/${locale}${path === '/' ? '' : path}${rest}`
+}
+
+/** `/es/pricing` → `{ locale: 'es', path: '/pricing' }`; unprefixed paths have no locale. */
+export function splitLocalePath(pathname: string): { locale: Locale | null; path: string } {
+  const match = /^\/([a-z]{2})(?=\/|$)(.*)$/.exec(pathname)
+  if (!match || !isLocale(match[1])) return { locale: null, path: pathname }
+  return { locale: match[1], path: match[2] || '/' }
+}
+
+/**
+ * Best supported locale for an Accept-Language header, honouring q-values
+ * and matching on the primary subtag ("pt-BR" → pt). Falls back to English.
+ */
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part, i) => {
+      const [range, ...params] = part.trim().split(';')
+      const q = params.map(p => /^\s*q=([\d.]+)\s*$/.exec(p)?.[1]).find(Boolean)
+      return { language: range.trim().toLowerCase().split('-')[0], q: q === undefined ? 1 : Number(q), i }
+    })
+    .filter(entry => entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i)
+  return ranked.map(entry => entry.language).find(isLocale) ?? DEFAULT_LOCALE
+}
+
+/** hreflang → URL map for a translated page, for `metadata.alternates.languages`. */
+export function languageAlternates(path: string): Record<string, string> {
+  return {
+    ...Object.fromEntries(LOCALES.map(locale => [locale, localePath(locale, path)])),
+    'x-default': path,
+  }
+}
@@ -0,0 +1,74 @@
+import en from '../../../content/messages/en.json'
+import es from '../../../content/messages/es.json'
+import pt from '../../../content/messages/pt.json'
+import type { Locale } from './locales'
+
+// UI strings for translated pages, one catalog per locale under
+// content/messages/. English is the reference: `Messages` is its shape, so
+// a catalog missing a key fails `tsc` (and with it `next build`), and
+// lib/i18n/server re-checks every catalog at import for keys the types
+// can't see — extra keys and mismatched {placeholders}.
+//
+// Homepage copy lives in content/home/<locale>.json instead (see
+// lib/content/home), but is held to the same key check.
+//
+// Safe to import from client components.
+
+export type Messages = typeof en
+
+const CATALOGS: Record<Locale, Messages> = { en, es, pt }
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale]
+}
+
+const PLACEHOLDER = /\{([A-Za-z]+)\}/g
+
+/** Fills `{name}` placeholders; unknown ones are left as written. */
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  )
+}
+
+function placeholders(message: string): string {
+  return [...message.matchAll(PLACEHOLDER)]
+    .map(m => m[1])
+    .sort()
+    .join(', ')
+}
+
+const join = (at: string, key: string) => (at ? `${at}.${key}` : key)
+
+/**
+ * Everything about `candidate` that doesn't line up with `reference`:
+ * missing or extra keys, list lengths, and strings whose {placeholders}
+ * differ. Values are otherwise free to change — that's the translation.
+ */
+export function translationProblems(reference: unknown, candidate: unknown, at = ''): string[] {
+  const here = at || '$'
+  if (Array.isArray(reference)) {
+    if (!Array.isArray(candidate)) return [`${here}: expected a list`]
+    if (candidate.length !== reference.length) return [`${here}: expected ${reference.length} items, found ${candidate.length}`]
+    return reference.flatMap((item, i) => translationProblems(item, candidate[i], `${at}[${i}]`))
+  }
+  if (typeof reference === 'object' && reference !== null) {
+    if (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate)) return [`${here}: expected an object`]
+    const ref = reference as Record<string, unknown>
+    const cand = candidate as Record<string, unknown>
+    return [
+      ...Object.keys(ref).flatMap(key =>
+        key in cand ? translationProblems(ref[key], cand[key], join(at, key)) : [`${join(at, key)}: missing`],
+      ),
+      ...Object.keys(cand)
+        .filter(key => !(key in ref))
+        .map(key => `${join(at, key)}: not in the English original`),
+    ]
+  }
+  if (typeof reference === 'string' && typeof candidate === 'string') {
+    const expected = placeholders(reference)
+    const found = placeholders(candidate)
+    return expected === found ? [] : [`${here}: placeholders (${found || 'none'}) don't match the English (${expected || 'none'})`]
+  }
+  return typeof reference === typeof candidate ? [] : [`${here}: expected a ${typeof reference}`]
+}
@@ -0,0 +1,26 @@
+import { notFound } from 'next/navigation'
+import { ContentError } from '../content/home'
+import { DEFAULT_LOCALE, isLocale, type Locale, LOCALES } from './locales'
+import { getMessages, translationProblems } from './messages'
+
+// Checked at import, like the homepage content: a translation that has
+// drifted from English fails the build instead of rendering "{count}".
+for (const locale of LOCALES) {
+  if (locale === DEFAULT_LOCALE) continue
+  const problems = translationProblems(getMessages(DEFAULT_LOCALE), getMessages(locale))
+  if (problems.length > 0) throw new ContentError(`content/messages/${locale}.json`, problems)
+}
+
+/** Route params of everything under app/[locale]. */
+export type LocaleParams = Promise<{ locale: string }>
+
+/**
+ * The locale src/proxy.ts rewrote this request to. It's a route segment
+ * rather than a request header so prerendered pages get their language
+ * from the URL; a segment the proxy wouldn't produce is a 404.
+ */
+export async function getLocale(params: LocaleParams): Promise<Locale> {
+  const { locale } = await params
+  if (!isLocale(locale)) notFound()
+  return locale
+}
@@ -0,0 +1,99 @@
+import { absoluteUrl, SITE_NAME } from '../site'
+import type { Post } from './posts'
+
+// RSS 2.0 and Atom 1.0 for the journal. Entries carry the summary rather
+// than the full post body — readers click through for the rest.
+
+export const FEED_TITLE = `${SITE_NAME} Journal`
+export const FEED_DESCRIPTION = 'Session recaps, campaign notes and announcements from Crit Fumble Gaming.'
+
+// Feed readers only need the latest handful.
+const FEED_LIMIT = 20
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function postUrl(post: Post): string {
+  return absoluteUrl(`/journal/${post.slug}`)
+}
+
+function postTimestamp(post: Post): Date {
+  return new Date(`${post.date}T00:00:00Z`)
+}
+
+export function buildRss(posts: Post[]): string {
+  const items = posts.slice(0, FEED_LIMIT).map(post =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${postUrl(post)}</link>`,
+      `      <guid isPermaLink="true">${postUrl(post)}</guid>`,
+      `      <pubDate>${postTimestamp(post).toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(post.author)}</dc:creator>`,
+      ...[...(post.campaign ? [post.campaign] : []), ...post.tags].map(
+        category => `      <category>${escapeXml(category)}</category>`,
+      ),
+      post.summary ? `      <description>${escapeXml(post.summary)}</description>` : '',
+      '    </item>',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(FEED_TITLE)}</title>`,
+    `    <link>${absoluteUrl('/journal')}</link>`,
+    `    <description>${escapeXml(FEED_DESCRIPTION)}</description>`,
+    '    <language>en-us</language>',
+    `    <atom:link href="${absoluteUrl('/feed.xml')}" rel="self" type="application/rss+xml"/>`,
+    ...(posts[0] ? [`    <lastBuildDate>${postTimestamp(posts[0]).toUTCString()}</lastBuildDate>`] : []),
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+export function buildAtom(posts: Post[]): string {
+  const updated = (posts[0] ? postTimestamp(posts[0]) : new Date(0)).toISOString()
+  const entries = posts.slice(0, FEED_LIMIT).map(post =>
+    [
+      '  <entry>',
+      `    <title>${escapeXml(post.title)}</title>`,
+      `    <link href="${postUrl(post)}"/>`,
+      `    <id>${postUrl(post)}</id>`,
+      `    <updated>${postTimestamp(post).toISOString()}</updated>`,
+      `    <author><name>${escapeXml(post.author)}</name></author>`,
+      ...[...(post.campaign ? [post.campaign] : []), ...post.tags].map(
+        category => `    <category term="${escapeXml(category)}"/>`,
+      ),
+      post.summary ? `    <summary>${escapeXml(post.summary)}</summary>` : '',
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(FEED_TITLE)}</title>`,
+    `  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+    `  <link href="${absoluteUrl('/journal')}"/>`,
+    `  <link href="${absoluteUrl('/atom.xml')}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${absoluteUrl('/journal')}</id>`,
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
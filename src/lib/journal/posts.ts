@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { compileMDX } from 'next-mdx-remote/rsc'
+import type { ReactElement } from 'react'
+
+// Journal posts are MDX files under content/posts; the filename (minus
+// .mdx) is the slug. Frontmatter is validated strictly — a post with a
+// missing or malformed field throws JournalContentError, which fails the
+// build through the sitemap and generateStaticParams rather than shipping a
+// half-rendered page.
+
+const POSTS_DIR = path.join(process.cwd(), 'content', 'posts')
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface PostFrontmatter {
+  title: string
+  /** Publication date, YYYY-MM-DD. */
+  date: string
+  /** Campaign the post belongs to, e.g. a session recap's campaign name. */
+  campaign?: string
+  tags: string[]
+  author: string
+  /** One or two sentences for the index and feeds. */
+  summary?: string
+}
+
+export interface Post extends PostFrontmatter {
+  slug: string
+  content: ReactElement
+}
+
+export class JournalContentError extends Error {
+  constructor(file: string, problem: string) {
+    super(`content/posts/${file}: ${problem}`)
+    this.name = 'JournalContentError'
+  }
+}
+
+function validateFrontmatter(file: string, data: Record<string, unknown>): PostFrontmatter {
+  const fail = (problem: string): never => {
+    throw new JournalContentError(file, problem)
+  }
+  const requireString = (key: string): string => {
+    const value = data[key]
+    if (typeof value !== 'string' || !value.trim()) fail(`frontmatter "${key}" must be a non-empty string`)
+    return (value as string).trim()
+  }
+  const optionalString = (key: string): string | undefined => {
+    if (data[key] === undefined) return undefined
+    return requireString(key)
+  }
+
+  const known = new Set(['title', 'date', 'campaign', 'tags', 'author', 'summary'])
+  for (const key of Object.keys(data)) {
+    if (!known.has(key)) fail(`unknown frontmatter field "${key}"`)
+  }
+
+  // YAML may hand back a Date for unquoted dates depending on the parser.
+  const rawDate = data.date instanceof Date ? data.date.toISOString().slice(0, 10) : data.date
+  if (typeof rawDate !== 'string' || !DATE_PATTERN.test(rawDate) || Number.isNaN(Date.parse(rawDate))) {
+    fail('frontmatter "date" must be a YYYY-MM-DD date')
+  }
+
+  const tags = data.tags ?? []
+  if (!Array.isArray(tags) || !tags.every(t => typeof t === 'string' && SLUG_PATTERN.test(t))) {
+    fail('frontmatter "tags" must be a list of lowercase-hyphenated tags')
+  }
+
+  return {
+    title: requireString('title'),
+    date: rawDate as string,
+    campaign: optionalString('campaign'),
+    tags: tags as string[],
+    author: requireString('author'),
+    summary: optionalString('summary'),
+  }
+}
+
+async function loadPost(file: string): Promise<Post> {
+  const slug = file.replace(/\.mdx$/, '')
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new JournalContentError(file, 'filename must be a lowercase-hyphenated slug')
+  }
+
+  const source = await fs.readFile(path.join(POSTS_DIR, file), 'utf8')
+  const { content, frontmatter } = await compileMDX<Record<string, unknown>>({
+    source,
+    options: { parseFrontmatter: true },
+  })
+  return { slug, content, ...validateFrontmatter(file, frontmatter) }
+}
+
+async function loadAllPosts(): Promise<Post[]> {
+  let files: string[]
+  try {
+    files = (await fs.readdir(POSTS_DIR)).filter(f => f.endsWith('.mdx'))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+  const posts = await Promise.all(files.map(loadPost))
+  return posts.sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug))
+}
+
+// Content only changes on deploy, so production compiles once per
+// instance. Dev re-reads every time so edits show up on refresh.
+let cached: Promise<Post[]> | null = null
+
+/** All posts, newest first. */
+export function getAllPosts(): Promise<Post[]> {
+  if (process.env.NODE_ENV !== 'production') return loadAllPosts()
+  cached ??= loadAllPosts()
+  return cached
+}
+
+export async function getPost(slug: string): Promise<Post | undefined> {
+  return (await getAllPosts()).find(post => post.slug === slug)
+}
+
+export interface PostFilter {
+  tag?: string
+  campaign?: string
+}
+
+export function filterPosts(posts: Post[], { tag, campaign }: PostFilter): Post[] {
+  return posts.filter(
+    post => (!tag || post.tags.includes(tag)) && (!campaign || post.campaign === campaign),
+  )
+}
+
+/** Distinct tags and campaigns across posts, for the filter bar. */
+export function postFacets(posts: Post[]): { tags: string[]; campaigns: string[] } {
+  const tags = new Set(posts.flatMap(post => post.tags))
+  const campaigns = new Set(posts.flatMap(post => (post.campaign ? [post.campaign] : [])))
+  return { tags: [...tags].sort(), campaigns: [...campaigns].sort() }
+}
+
+export function formatPostDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    dateStyle: 'long',
+    timeZone: 'UTC',
+  })
+}
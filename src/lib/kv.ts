@@ -0,0 +1,87 @@
+// Durable storage for the waitlist, analytics events and the /status probe
+// history in production. Vercel functions don't share memory and their
+// filesystem is read-only, so anything that has to outlive one instance
+// goes to a Redis database over its REST API — Vercel's KV / Upstash Redis
+// integration, which sets KV_REST_API_URL and KV_REST_API_TOKEN. Plain
+// fetch, so there's no client library to keep in step.
+//
+// `npm run mock:upstream` answers the handful of commands the stores use:
+//   KV_REST_API_URL=http://localhost:4010/kv KV_REST_API_TOKEN=mock npm run dev
+
+export type StoreBackend = 'kv' | 'file' | 'memory'
+
+const BACKENDS: readonly StoreBackend[] = ['kv', 'file', 'memory']
+
+export class KvError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KvError'
+  }
+}
+
+function kvConfig(): { url: string; token: string } | null {
+  const url = process.env.KV_REST_API_URL
+  const token = process.env.KV_REST_API_TOKEN
+  return url && token ? { url: url.replace(/\/$/, ''), token } : null
+}
+
+export function isKvConfigured(): boolean {
+  return kvConfig() !== null
+}
+
+/**
+ * The backend a store should use, from its `*_STORE` setting. Unset, it's
+ * the file adapter under `next dev` and KV everywhere else. Throws rather
+ * than quietly falling back when production would end up with per-instance
+ * memory or a filesystem it can't write: losing signups or events without
+ * anyone noticing is worse than a failed request that shows up in the logs.
+ *
+ * `memory` stays available by asking for it explicitly (previews, `next
+ * start` on a laptop), just never on the production deployment.
+ */
+export function resolveStoreBackend(setting: string | undefined, variable: string): StoreBackend {
+  if (setting !== undefined && !BACKENDS.includes(setting as StoreBackend)) {
+    throw new KvError(`${variable} must be one of ${BACKENDS.join(', ')} (got "${setting}")`)
+  }
+  const backend = (setting as StoreBackend | undefined) ?? (process.env.NODE_ENV === 'development' ? 'file' : 'kv')
+
+  if (backend !== 'kv' && process.env.VERCEL_ENV === 'production') {
+    throw new KvError(`${variable}=${backend} isn't durable on the production deployment; use kv`)
+  }
+  if (backend === 'kv' && !isKvConfigured()) {
+    throw new KvError(
+      `${variable} needs a durable backend: set KV_REST_API_URL and KV_REST_API_TOKEN` +
+        (process.env.VERCEL_ENV === 'production' ? '' : `, or ${variable}=memory outside production`),
+    )
+  }
+  return backend
+}
+
+type KvArg = string | number
+
+/** Runs one Redis command, e.g. `kv('HGET', 'waitlist:signups', email)`. */
+export async function kv<T = unknown>(...command: KvArg[]): Promise<T> {
+  const [result] = await kvPipeline<[T]>([command])
+  return result
+}
+
+/** Runs several commands in one round trip; results come back in order. */
+export async function kvPipeline<T extends unknown[]>(commands: KvArg[][]): Promise<T> {
+  const config = kvConfig()
+  if (!config) throw new KvError('KV_REST_API_URL and KV_REST_API_TOKEN are not set')
+
+  const res = await fetch(`${config.url}/pipeline`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${config.token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(commands.map(command => command.map(String))),
+    cache: 'no-store',
+    signal: AbortSignal.timeout(5000),
+  })
+  if (!res.ok) throw new KvError(`KV request failed: HTTP ${res.status}`)
+
+  const replies = (await res.json()) as { result?: unknown; error?: string }[]
+  return replies.map((reply, i) => {
+    if (reply.error) throw new KvError(`KV ${String(commands[i][0])} failed: ${reply.error}`)
+    return reply.result
+  }) as T
+}
@@ -0,0 +1,31 @@
+import nodemailer, { type Transporter } from 'nodemailer'
+
+// Outbound mail over plain SMTP. SMTP_URL takes a nodemailer connection
+// URL, so a local catcher (Mailpit, MailHog) works with
+// SMTP_URL=smtp://localhost:1025. With no SMTP_URL in development, mail is
+// printed to the server log instead of sent.
+
+export interface OutgoingMail {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+const MAIL_FROM = process.env.MAIL_FROM ?? 'Crit-Fumble Gaming <noreply@crit-fumble.com>'
+
+let transporter: Transporter | null = null
+
+export async function sendMail(mail: OutgoingMail): Promise<void> {
+  const url = process.env.SMTP_URL
+  if (!url) {
+    if (process.env.NODE_ENV === 'development') {
+      console.info(`[mailer] SMTP_URL unset — would send to ${mail.to}:\n${mail.subject}\n\n${mail.text}`)
+      return
+    }
+    throw new Error('SMTP_URL is not configured')
+  }
+
+  transporter ??= nodemailer.createTransport(url)
+  await transporter.sendMail({ from: MAIL_FROM, ...mail })
+}
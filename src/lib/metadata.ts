@@ -0,0 +1,62 @@
+import type { Metadata } from 'next'
+import { languageAlternates, type Locale, localePath, LOCALE_TAGS } from './i18n/locales'
+import { SITE_NAME } from './site'
+
+interface PageMetadataOptions {
+  /** Page title without the site suffix. */
+  title: string
+  description: string
+  /** Canonical path, e.g. `/status`. */
+  path: string
+  /** Smaller line on the OG card; defaults to the description. */
+  ogSubtitle?: string
+  /**
+   * For pages translated in lib/i18n: the language being rendered. Points
+   * the canonical URL at that language's version and adds hreflang
+   * alternates for the others.
+   */
+  locale?: Locale
+}
+
+/** Open Graph wants "es_US", not "es-US". */
+export function ogLocale(locale: Locale): string {
+  return LOCALE_TAGS[locale].replace('-', '_')
+}
+
+/** `/og` card URL for a title/subtitle pair. Relative — metadataBase resolves it. */
+export function ogImageUrl(title: string, subtitle?: string): string {
+  const params = new URLSearchParams({ title })
+  if (subtitle) params.set('subtitle', subtitle)
+  return `/og?${params}`
+}
+
+/**
+ * Per-page metadata with a matching OG/Twitter card. Every page should
+ * export `metadata = pageMetadata(...)` (or return it from
+ * generateMetadata) so shared links unfurl with the page's own title
+ * rather than the homepage's.
+ */
+export function pageMetadata({ title, description, path, ogSubtitle, locale }: PageMetadataOptions): Metadata {
+  const image = { url: ogImageUrl(title, ogSubtitle ?? description), width: 1200, height: 630, alt: title }
+  const url = locale ? localePath(locale, path) : path
+  return {
+    title: `${title} — ${SITE_NAME}`,
+    description,
+    alternates: locale ? { canonical: url, languages: languageAlternates(path) } : { canonical: path },
+    openGraph: {
+      type: 'website',
+      siteName: SITE_NAME,
+      title,
+      description,
+      url,
+      ...(locale && { locale: ogLocale(locale) }),
+      images: [image],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image.url],
+    },
+  }
+}
@@ -0,0 +1,82 @@
+import { ImageResponse } from 'next/og'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+// Shared renderer for every OG card on the site: crit-purple gradient,
+// round CFG logo, Rubik display type. Kept as plain inline styles because
+// Satori doesn't run Tailwind.
+
+export const OG_SIZE = { width: 1200, height: 630 }
+
+const PURPLE_600 = '#552e66'
+const PURPLE_900 = '#1e0f25'
+const PURPLE_300 = '#c4b5fd'
+
+// Assets are read once per server instance. Satori can't fetch relative
+// URLs, so the logo goes in as a data URI.
+// Satori can't parse variable fonts, so the cards use static latin-subset
+// cuts of Rubik alongside the variable font the site itself serves.
+let assets: Promise<{ rubikRegular: Buffer; rubikBold: Buffer; logo: string }> | null = null
+
+function loadAssets() {
+  assets ??= Promise.all([
+    readFile(join(process.cwd(), 'public/fonts/Rubik-Regular-latin.woff')),
+    readFile(join(process.cwd(), 'public/fonts/Rubik-Bold-latin.woff')),
+    readFile(join(process.cwd(), 'public/img/cfg-logo.jpg')),
+  ]).then(([rubikRegular, rubikBold, logo]) => ({
+    rubikRegular,
+    rubikBold,
+    logo: `data:image/jpeg;base64,${logo.toString('base64')}`,
+  }))
+  return assets
+}
+
+export interface OgCardOptions {
+  title: string
+  subtitle?: string
+  /** Small label above the title, e.g. a section name. */
+  eyebrow?: string
+}
+
+export async function renderOgImage({ title, subtitle, eyebrow }: OgCardOptions): Promise<ImageResponse> {
+  const { rubikRegular, rubikBold, logo } = await loadAssets()
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 56,
+          padding: '0 80px',
+          background: `linear-gradient(135deg, ${PURPLE_600} 0%, ${PURPLE_900} 100%)`,
+          color: 'white',
+          fontFamily: 'Rubik',
+        }}
+      >
+        <img src={logo} width={280} height={280} alt="" style={{ borderRadius: 9999 }} />
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, gap: 20 }}>
+          {eyebrow && (
+            <div style={{ fontSize: 30, color: PURPLE_300, textTransform: 'uppercase', letterSpacing: 4 }}>
+              {eyebrow}
+            </div>
+          )}
+          <div style={{ fontSize: title.length > 40 ? 60 : 76, fontWeight: 700, lineHeight: 1.1 }}>{title}</div>
+          {subtitle && (
+            <div style={{ fontSize: 32, color: 'rgba(255,255,255,0.8)', lineHeight: 1.3 }}>{subtitle}</div>
+          )}
+          <div style={{ fontSize: 26, color: PURPLE_300, marginTop: 12 }}>crit-fumble.com</div>
+        </div>
+      </div>
+    ),
+    {
+      ...OG_SIZE,
+      fonts: [
+        { name: 'Rubik', data: rubikRegular, weight: 400, style: 'normal' },
+        { name: 'Rubik', data: rubikBold, weight: 700, style: 'normal' },
+      ],
+    },
+  )
+}
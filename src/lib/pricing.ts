@@ -0,0 +1,134 @@
+import { CORE_API_URL } from './core/client'
+
+// Subscription tiers for /pricing. Core owns the plans; www reads them from
+// `GET {CORE_API_URL}/pricing` through Next's fetch cache, revalidated
+// hourly. There's no local copy to fall back on — a stale or guessed price
+// list reads as an offer — so while Core can't be reached (e.g.
+// mid-migration) the page says pricing is unavailable and points to Core.
+// `npm run mock:upstream` serves sample tiers for development.
+//
+// Payload: `{ "asOf": ISO 8601, "tiers": PricingTier[] }`. Unlike the
+// announcement and creator feeds, a payload with any invalid tier is
+// rejected whole: a comparison table with a plan silently missing would
+// misstate what's on offer.
+
+export interface PricingTier {
+  /** Stable plan id, passed to Core's checkout. */
+  id: string
+  name: string
+  tagline?: string
+  /** 0 for the free plan. */
+  monthlyPriceUsd: number
+  /** Compute Tokens granted each month. */
+  monthlyCt: number
+  limits: {
+    /** Longest ReSesh recording per session; null = no cap. */
+    reseshSessionHours: number | null
+    /** Game servers running at once. */
+    concurrentServers: number
+  }
+  /** Can cash Story Credit out to USD through Stripe Connect. */
+  stripeConnect: boolean
+  /** Highlighted in the comparison. */
+  featured?: boolean
+}
+
+export interface Pricing {
+  tiers: PricingTier[]
+  /** When these prices were published. */
+  asOf: string
+}
+
+// Plans change rarely; an hour keeps Core's pricing endpoint out of the
+// request path without leaving a price change stale for long.
+export const PRICING_REVALIDATE_S = 3600
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export class PricingSchemaError extends Error {
+  constructor(
+    source: string,
+    readonly problems: string[],
+  ) {
+    super(`${source} is not a valid pricing payload:\n${problems.map(p => `  - ${p}`).join('\n')}`)
+    this.name = 'PricingSchemaError'
+  }
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function isMoney(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/** Validates a whole pricing payload, reporting every problem at once. */
+export function parsePricing(input: unknown, source: string): Pricing {
+  const problems: string[] = []
+  const root = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+
+  const asOf = typeof root.asOf === 'string' && !Number.isNaN(Date.parse(root.asOf)) ? root.asOf : null
+  if (!asOf) problems.push('asOf: expected an ISO 8601 date')
+  if (!Array.isArray(root.tiers) || root.tiers.length === 0) {
+    problems.push('tiers: expected a non-empty list')
+    throw new PricingSchemaError(source, problems)
+  }
+
+  const tiers: PricingTier[] = []
+  const seen = new Set<string>()
+  root.tiers.forEach((raw: unknown, i) => {
+    const at = `tiers[${i}]`
+    const tier = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>
+    const limits = (typeof tier.limits === 'object' && tier.limits !== null ? tier.limits : {}) as Record<string, unknown>
+    const before = problems.length
+
+    if (typeof tier.id !== 'string' || !ID_PATTERN.test(tier.id)) problems.push(`${at}.id: expected a slug`)
+    else if (seen.has(tier.id)) problems.push(`${at}.id: duplicate "${tier.id}"`)
+    else seen.add(tier.id)
+    if (typeof tier.name !== 'string' || !tier.name.trim()) problems.push(`${at}.name: expected non-empty text`)
+    if (tier.tagline !== undefined && typeof tier.tagline !== 'string') problems.push(`${at}.tagline: expected text`)
+    if (!isMoney(tier.monthlyPriceUsd)) problems.push(`${at}.monthlyPriceUsd: expected a non-negative number`)
+    if (!isCount(tier.monthlyCt)) problems.push(`${at}.monthlyCt: expected a non-negative whole number`)
+    if (limits.reseshSessionHours !== null && !(isMoney(limits.reseshSessionHours) && limits.reseshSessionHours > 0)) {
+      problems.push(`${at}.limits.reseshSessionHours: expected a positive number or null`)
+    }
+    if (!isCount(limits.concurrentServers)) problems.push(`${at}.limits.concurrentServers: expected a non-negative whole number`)
+    if (typeof tier.stripeConnect !== 'boolean') problems.push(`${at}.stripeConnect: expected true or false`)
+    if (tier.featured !== undefined && typeof tier.featured !== 'boolean') problems.push(`${at}.featured: expected true or false`)
+    if (problems.length > before) return
+
+    tiers.push({
+      id: tier.id as string,
+      name: (tier.name as string).trim(),
+      ...(typeof tier.tagline === 'string' && tier.tagline.trim() && { tagline: tier.tagline.trim() }),
+      monthlyPriceUsd: tier.monthlyPriceUsd as number,
+      monthlyCt: tier.monthlyCt as number,
+      limits: {
+        reseshSessionHours: limits.reseshSessionHours as number | null,
+        concurrentServers: limits.concurrentServers as number,
+      },
+      stripeConnect: tier.stripeConnect as boolean,
+      ...(tier.featured === true && { featured: true }),
+    })
+  })
+
+  if (problems.length > 0) throw new PricingSchemaError(source, problems)
+  return { asOf: asOf!, tiers: tiers.sort((a, b) => a.monthlyPriceUsd - b.monthlyPriceUsd) }
+}
+
+/** Live tiers from Core, or null while it's down or sends something invalid. Server-only. */
+export async function getPricing(): Promise<Pricing | null> {
+  try {
+    const res = await fetch(`${CORE_API_URL}/pricing`, {
+      signal: AbortSignal.timeout(3000),
+      next: { revalidate: PRICING_REVALIDATE_S },
+    })
+    if (!res.ok) return null
+    return parsePricing(await res.json(), 'Core pricing endpoint')
+  } catch (err) {
+    // Unreachable during the migration; only an invalid payload is worth logging.
+    if (err instanceof PricingSchemaError) console.error('[pricing]', err.message)
+    return null
+  }
+}
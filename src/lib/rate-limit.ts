@@ -0,0 +1,41 @@
+// Fixed-window, in-process rate limiting for public form endpoints. Per
+// instance rather than global, which is fine for what it's for: blunting a
+// script hammering one form, not metering paid usage.
+
+export interface RateLimiter {
+  /** Counts a hit for `key`; false once the key is over its limit. */
+  consume(key: string): boolean
+}
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    consume(key) {
+      const now = Date.now()
+      // Sweep expired windows opportunistically so the map can't grow
+      // without bound across a long-lived instance.
+      if (windows.size > 10_000) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k)
+      }
+
+      const current = windows.get(key)
+      if (!current || current.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs })
+        return true
+      }
+      current.count += 1
+      return current.count <= limit
+    },
+  }
+}
+
+/**
+ * Best-effort client IP. Vercel sets x-forwarded-for with the client first;
+ * anything not behind a proxy falls back to a shared 'unknown' bucket.
+ */
+export function clientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+  return headers.get('x-real-ip') ?? 'unknown'
+}
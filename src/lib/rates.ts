@@ -0,0 +1,82 @@
+import { CORE_API_URL } from './core/client'
+import { SERVER_KINDS } from './servers'
+
+// Metered rates that only Core knows: hourly CT burn for ReSesh and each
+// hosted server kind, the versions its Server Manager can provision, and
+// what Story Credit converts to in CC. Read from `GET {CORE_API_URL}/rates`
+// through Next's fetch cache, revalidated hourly. There's deliberately no
+// local copy — a guessed rate shown next to real prices reads as a quote —
+// so when Core can't be reached the calculator and /servers pages say the
+// figure is unavailable instead.
+//
+// Payload:
+//   {
+//     "reseshCtPerHour": number,
+//     "ccPerSc": number,
+//     "servers": { "<kind slug>": { "ctPerHour": number, "versions": string[] } }
+//   }
+// Each field is checked on its own; an invalid one is dropped and logged
+// and the rest still show. `npm run mock:upstream` serves a sample.
+
+export interface ServerRate {
+  ctPerHour: number
+  /** Newest first. */
+  versions: string[]
+}
+
+export interface Rates {
+  reseshCtPerHour: number | null
+  /** CC one Story Credit converts back to. */
+  ccPerSc: number | null
+  /** By server kind slug; kinds Core didn't price are absent. */
+  servers: Partial<Record<string, ServerRate>>
+}
+
+export const NO_RATES: Rates = { reseshCtPerHour: null, ccPerSc: null, servers: {} }
+
+export const RATES_REVALIDATE_S = 3600
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+function parseServerRate(input: unknown): ServerRate | null {
+  const raw = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+  if (!isRate(raw.ctPerHour)) return null
+  if (!Array.isArray(raw.versions) || !raw.versions.every(v => typeof v === 'string' && v.trim())) return null
+  return { ctPerHour: raw.ctPerHour, versions: raw.versions.map((v: string) => v.trim()) }
+}
+
+export function parseRates(input: unknown): Rates {
+  const root = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+  const servers = (typeof root.servers === 'object' && root.servers !== null ? root.servers : {}) as Record<string, unknown>
+  const rates: Rates = {
+    reseshCtPerHour: isRate(root.reseshCtPerHour) ? root.reseshCtPerHour : null,
+    ccPerSc: isRate(root.ccPerSc) ? root.ccPerSc : null,
+    servers: {},
+  }
+  if (rates.reseshCtPerHour === null) console.warn('[rates] missing or invalid reseshCtPerHour')
+  if (rates.ccPerSc === null) console.warn('[rates] missing or invalid ccPerSc')
+
+  for (const kind of SERVER_KINDS) {
+    const rate = parseServerRate(servers[kind.slug])
+    if (rate) rates.servers[kind.slug] = rate
+    else console.warn(`[rates] missing or invalid rate for server kind "${kind.slug}"`)
+  }
+  return rates
+}
+
+/** Core's current rates, or NO_RATES while it can't be reached. Server-only. */
+export async function getRates(): Promise<Rates> {
+  try {
+    const res = await fetch(`${CORE_API_URL}/rates`, {
+      signal: AbortSignal.timeout(3000),
+      next: { revalidate: RATES_REVALIDATE_S },
+    })
+    if (!res.ok) return NO_RATES
+    return parseRates(await res.json())
+  } catch {
+    // Unreachable during the migration; nothing to show, nothing worth logging.
+    return NO_RATES
+  }
+}
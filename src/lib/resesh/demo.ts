@@ -0,0 +1,12 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { parseTranscript, type Transcript } from './transcript'
+
+// The sample session behind /resesh/demo. It goes through the same
+// validator as any other transcript, so the demo doubles as a check that
+// the format and the renderer still agree.
+const DEMO_TRANSCRIPT_PATH = path.join(process.cwd(), 'content', 'transcripts', 'demo.json')
+
+export async function getDemoTranscript(): Promise<Transcript> {
+  return parseTranscript(JSON.parse(await fs.readFile(DEMO_TRANSCRIPT_PATH, 'utf8')))
+}
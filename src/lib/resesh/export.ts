@@ -0,0 +1,93 @@
+import { formatTimestamp, type Transcript, type TranscriptSegment } from './transcript'
+
+// Transcript exports. Each takes the segments to include, so the viewer can
+// export exactly what's on screen (e.g. one speaker's lines).
+
+export type ExportFormat = 'srt' | 'vtt' | 'md'
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+  { format: 'md', label: 'Markdown', mimeType: 'text/markdown' },
+]
+
+function clockTime(ms: number, separator: ',' | '.'): string {
+  const hours = String(Math.floor(ms / 3_600_000)).padStart(2, '0')
+  const minutes = String(Math.floor((ms % 3_600_000) / 60_000)).padStart(2, '0')
+  const seconds = String(Math.floor((ms % 60_000) / 1000)).padStart(2, '0')
+  return `${hours}:${minutes}:${seconds}${separator}${String(ms % 1000).padStart(3, '0')}`
+}
+
+function speakerNames(transcript: Transcript): Map<string, string> {
+  return new Map(transcript.speakers.map(speaker => [speaker.id, speaker.name]))
+}
+
+// Cue text can't contain a blank line (it would end the cue), and VTT
+// reserves "-->" and markup characters.
+function cueText(text: string): string {
+  return text.replace(/\s*\n\s*\n\s*/g, '\n').trim()
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function toSrt(transcript: Transcript, segments: TranscriptSegment[]): string {
+  const names = speakerNames(transcript)
+  return segments
+    .map((segment, i) =>
+      [
+        String(i + 1),
+        `${clockTime(segment.startMs, ',')} --> ${clockTime(segment.endMs, ',')}`,
+        `${names.get(segment.speakerId)}: ${cueText(segment.text)}`,
+      ].join('\n'),
+    )
+    .join('\n\n')
+    .concat('\n')
+}
+
+export function toVtt(transcript: Transcript, segments: TranscriptSegment[]): string {
+  const names = speakerNames(transcript)
+  const cues = segments.map(segment =>
+    [
+      `${clockTime(segment.startMs, '.')} --> ${clockTime(segment.endMs, '.')}`,
+      `<v ${escapeVtt(names.get(segment.speakerId) ?? '')}>${escapeVtt(cueText(segment.text))}`,
+    ].join('\n'),
+  )
+  return [`WEBVTT - ${transcript.session.title.replace(/-->/g, '→').replace(/\n/g, ' ')}`, ...cues].join('\n\n') + '\n'
+}
+
+export function toMarkdown(transcript: Transcript, segments: TranscriptSegment[]): string {
+  const names = speakerNames(transcript)
+  const { session } = transcript
+  const details = [
+    `- **Recorded:** ${new Date(session.recordedAt).toUTCString()}`,
+    `- **Duration:** ${formatTimestamp(session.durationMs)}`,
+    session.campaign && `- **Campaign:** ${session.campaign}`,
+    session.system && `- **System:** ${session.system}`,
+    session.channel && `- **Channel:** ${session.channel}`,
+    `- **Speakers:** ${transcript.speakers.map(s => s.name).join(', ')}`,
+  ].filter(Boolean)
+
+  const lines = segments.map(
+    segment => `**[${formatTimestamp(segment.startMs)}] ${names.get(segment.speakerId)}:** ${segment.text.replace(/\s*\n\s*/g, ' ')}`,
+  )
+  return [`# ${session.title}`, details.join('\n'), ...lines].join('\n\n') + '\n'
+}
+
+export function exportTranscript(format: ExportFormat, transcript: Transcript, segments: TranscriptSegment[]): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(transcript, segments)
+    case 'vtt':
+      return toVtt(transcript, segments)
+    case 'md':
+      return toMarkdown(transcript, segments)
+  }
+}
+
+/** e.g. "the-lighthouse-keeper.vtt". */
+export function exportFilename(transcript: Transcript, format: ExportFormat): string {
+  const base = transcript.session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'transcript'
+  return `${base}.${format}`
+}
@@ -0,0 +1,44 @@
+// Client-side transcript search. A query is split into words; a segment
+// matches when it contains every word (case- and accent-insensitive), and
+// every occurrence of every word is highlighted.
+
+export interface TextPart {
+  text: string
+  hit: boolean
+}
+
+// Folds one UTF-16 unit at a time so offsets in the folded string line up
+// with the original — highlight() relies on that.
+function fold(value: string): string {
+  return value.split('').map(char => char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().charAt(0) || char).join('')
+}
+
+export function queryTerms(query: string): string[] {
+  return [...new Set(fold(query).split(/\s+/).filter(Boolean))]
+}
+
+export function matchesAll(text: string, terms: string[]): boolean {
+  const folded = fold(text)
+  return terms.every(term => folded.includes(term))
+}
+
+/** Splits `text` into alternating plain and highlighted parts. */
+export function highlight(text: string, terms: string[]): TextPart[] {
+  if (terms.length === 0) return [{ text, hit: false }]
+
+  const folded = fold(text)
+  const marked = new Array<boolean>(text.length).fill(false)
+  for (const term of terms) {
+    for (let at = folded.indexOf(term); at !== -1; at = folded.indexOf(term, at + 1)) {
+      marked.fill(true, at, at + term.length)
+    }
+  }
+
+  const parts: TextPart[] = []
+  for (let i = 0; i < text.length; i++) {
+    const last = parts[parts.length - 1]
+    if (last && last.hit === marked[i]) last.text += text[i]
+    else parts.push({ text: text[i], hit: marked[i] })
+  }
+  return parts
+}
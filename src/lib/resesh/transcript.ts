@@ -0,0 +1,158 @@
+// The ReSesh transcript format (version 1) — what the bot exports after a
+// recorded session, and what /resesh/demo renders. Times are milliseconds
+// from the start of the recording; segments are ordered by start time and
+// each belongs to exactly one speaker.
+//
+// This module is shared by the server loader and the client viewer, so it
+// must stay free of Node APIs.
+
+export const TRANSCRIPT_VERSION = 1
+
+export interface TranscriptSpeaker {
+  /** Referenced by segments; the bot uses the Discord user id. */
+  id: string
+  /** Display name at recording time. */
+  name: string
+  role?: 'gm' | 'player' | 'guest'
+}
+
+export interface TranscriptSegment {
+  speakerId: string
+  startMs: number
+  endMs: number
+  text: string
+}
+
+export interface TranscriptSession {
+  title: string
+  /** ISO 8601 instant the recording started. */
+  recordedAt: string
+  durationMs: number
+  campaign?: string
+  system?: string
+  /** Discord voice channel the session was recorded in. */
+  channel?: string
+}
+
+export interface Transcript {
+  version: typeof TRANSCRIPT_VERSION
+  session: TranscriptSession
+  speakers: TranscriptSpeaker[]
+  segments: TranscriptSegment[]
+}
+
+export class TranscriptFormatError extends Error {
+  constructor(problem: string) {
+    super(`Invalid ReSesh transcript: ${problem}`)
+    this.name = 'TranscriptFormatError'
+  }
+}
+
+const ROLES = new Set(['gm', 'player', 'guest'])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
+/** Validates untrusted JSON (a file, an upload, an API response) as a transcript. */
+export function parseTranscript(input: unknown): Transcript {
+  const fail = (problem: string): never => {
+    throw new TranscriptFormatError(problem)
+  }
+  const optionalString = (record: Record<string, unknown>, key: string, where: string): string | undefined => {
+    const value = record[key]
+    if (value === undefined) return undefined
+    if (typeof value !== 'string' || !value.trim()) fail(`${where}.${key} must be a non-empty string`)
+    return value as string
+  }
+
+  if (!isRecord(input)) return fail('expected a JSON object')
+  if (input.version !== TRANSCRIPT_VERSION) fail(`unsupported version ${JSON.stringify(input.version)}`)
+
+  const session = isRecord(input.session) ? input.session : fail('session is required')
+  if (typeof session.title !== 'string' || !session.title.trim()) fail('session.title must be a non-empty string')
+  if (typeof session.recordedAt !== 'string' || Number.isNaN(Date.parse(session.recordedAt))) {
+    fail('session.recordedAt must be an ISO 8601 date')
+  }
+  if (!isNonNegativeInteger(session.durationMs)) fail('session.durationMs must be a non-negative integer')
+
+  const rawSpeakers = Array.isArray(input.speakers) ? input.speakers : fail('speakers must be an array')
+  const speakerIds = new Set<string>()
+  const speakers = rawSpeakers.map((speaker, i): TranscriptSpeaker => {
+    const where = `speakers[${i}]`
+    if (!isRecord(speaker)) return fail(`${where} must be an object`)
+    if (typeof speaker.id !== 'string' || !speaker.id) fail(`${where}.id must be a non-empty string`)
+    if (speakerIds.has(speaker.id as string)) fail(`${where}.id "${speaker.id}" is duplicated`)
+    speakerIds.add(speaker.id as string)
+    if (typeof speaker.name !== 'string' || !speaker.name.trim()) fail(`${where}.name must be a non-empty string`)
+    if (speaker.role !== undefined && !ROLES.has(speaker.role as string)) fail(`${where}.role must be gm, player or guest`)
+    return {
+      id: speaker.id as string,
+      name: speaker.name as string,
+      ...(speaker.role !== undefined && { role: speaker.role as TranscriptSpeaker['role'] }),
+    }
+  })
+
+  const rawSegments = Array.isArray(input.segments) ? input.segments : fail('segments must be an array')
+  let previousStart = 0
+  const segments = rawSegments.map((segment, i): TranscriptSegment => {
+    const where = `segments[${i}]`
+    if (!isRecord(segment)) return fail(`${where} must be an object`)
+    if (typeof segment.speakerId !== 'string' || !speakerIds.has(segment.speakerId)) {
+      fail(`${where}.speakerId must reference a speaker`)
+    }
+    if (!isNonNegativeInteger(segment.startMs) || !isNonNegativeInteger(segment.endMs)) {
+      fail(`${where} needs integer startMs and endMs`)
+    }
+    const startMs = segment.startMs as number
+    const endMs = segment.endMs as number
+    if (endMs < startMs) fail(`${where} ends before it starts`)
+    if (startMs < previousStart) fail(`${where} is out of order`)
+    previousStart = startMs
+    if (typeof segment.text !== 'string' || !segment.text.trim()) fail(`${where}.text must be a non-empty string`)
+    return { speakerId: segment.speakerId as string, startMs, endMs, text: segment.text as string }
+  })
+
+  return {
+    version: TRANSCRIPT_VERSION,
+    session: {
+      title: session.title as string,
+      recordedAt: session.recordedAt as string,
+      durationMs: session.durationMs as number,
+      campaign: optionalString(session, 'campaign', 'session'),
+      system: optionalString(session, 'system', 'session'),
+      channel: optionalString(session, 'channel', 'session'),
+    },
+    speakers,
+    segments,
+  }
+}
+
+/** "1:02:03" or "12:34" — the display format, also accepted by parseTimestamp. */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`
+}
+
+/** Parses "ss", "mm:ss" or "h:mm:ss" into milliseconds; null if malformed. */
+export function parseTimestamp(input: string): number | null {
+  const parts = input.trim().split(':')
+  if (parts.length > 3 || !parts.every(p => /^\d+$/.test(p))) return null
+  const numbers = parts.map(Number)
+  if (numbers.slice(1).some(n => n > 59)) return null
+  return numbers.reduce((total, n) => total * 60 + n, 0) * 1000
+}
+
+/** Index of the segment playing at `ms` — the last one starting at or before it. */
+export function segmentIndexAt(segments: TranscriptSegment[], ms: number): number {
+  let found = -1
+  for (let i = 0; i < segments.length && segments[i].startMs <= ms; i++) found = i
+  return Math.max(found, 0)
+}
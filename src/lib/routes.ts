@@ -0,0 +1,53 @@
+import { existsSync } from 'fs'
+import path from 'path'
+import { SERVER_KINDS } from './servers'
+
+// Every internal path the site serves, for validating links in editable
+// content (see lib/content). Add new pages and route handlers here; a
+// content link to anything else fails the build.
+
+const STATIC_PATHS = new Set([
+  '/',
+  '/account',
+  '/atom.xml',
+  '/creators',
+  '/feed.xml',
+  '/journal',
+  '/pricing',
+  '/resesh/demo',
+  '/resesh/install',
+  '/schedule',
+  '/schedule.ics',
+  '/status',
+  '/waitlist/confirm',
+])
+
+const POSTS_DIR = path.join(process.cwd(), 'content', 'posts')
+
+/**
+ * File-backed checks only run where the directory exists: the build always
+ * has it, but a deployed function only carries the files it traced, and
+ * the build is where a broken link needs to fail anyway.
+ */
+export function fileExistsIfCheckable(dir: string, file: string): boolean {
+  return !existsSync(dir) || existsSync(path.join(dir, file))
+}
+
+const DYNAMIC_PATHS: [RegExp, (param: string) => boolean][] = [
+  // Creators can come from Core's feed at request time, so any handle-shaped
+  // path is accepted here.
+  [/^\/creators\/([a-z0-9-]+)$/, () => true],
+  [/^\/servers\/([^/]+)$/, slug => SERVER_KINDS.some(kind => kind.slug === slug)],
+  [/^\/journal\/([a-z0-9-]+)$/, slug => fileExistsIfCheckable(POSTS_DIR, `${slug}.mdx`)],
+  [/^\/roll\/([^/]+)$/, () => true],
+]
+
+/** Whether an internal href ("/path?query#hash") points at a real route. */
+export function isKnownRoute(href: string): boolean {
+  const pathname = href.split(/[?#]/)[0].replace(/(.)\/$/, '$1')
+  if (STATIC_PATHS.has(pathname)) return true
+  return DYNAMIC_PATHS.some(([pattern, exists]) => {
+    const match = pattern.exec(pathname)
+    return match !== null && exists(decodeURIComponent(match[1]))
+  })
+}
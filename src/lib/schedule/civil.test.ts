@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, addMonths, civilDateInZone, parseLocalDateTime, weekday, zonedTimeToUtc } from './civil'
+
+const at = (value: string) => parseLocalDateTime(value)!
+
+describe('zonedTimeToUtc', () => {
+  it('applies standard and daylight offsets either side of a change', () => {
+    expect(zonedTimeToUtc(at('2026-03-07T19:00'), 'America/New_York').toISOString()).toBe('2026-03-08T00:00:00.000Z')
+    expect(zonedTimeToUtc(at('2026-03-08T19:00'), 'America/New_York').toISOString()).toBe('2026-03-08T23:00:00.000Z')
+    expect(zonedTimeToUtc(at('2026-10-24T19:00'), 'Europe/London').toISOString()).toBe('2026-10-24T18:00:00.000Z')
+    expect(zonedTimeToUtc(at('2026-10-25T19:00'), 'Europe/London').toISOString()).toBe('2026-10-25T19:00:00.000Z')
+  })
+
+  it('moves a time in the spring-forward gap an hour later', () => {
+    // 02:30 doesn't exist on 8 March in New York; 02:30 EST is 03:30 EDT.
+    expect(zonedTimeToUtc(at('2026-03-08T02:30'), 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z')
+  })
+
+  it('picks the first of two fall-back times', () => {
+    // 01:30 happens twice on 1 November in New York: EDT first, then EST.
+    expect(zonedTimeToUtc(at('2026-11-01T01:30'), 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z')
+  })
+
+  it('handles zones without DST and with non-hour offsets', () => {
+    expect(zonedTimeToUtc(at('2026-07-01T12:00'), 'UTC').toISOString()).toBe('2026-07-01T12:00:00.000Z')
+    expect(zonedTimeToUtc(at('2026-07-01T12:00'), 'Asia/Kolkata').toISOString()).toBe('2026-07-01T06:30:00.000Z')
+  })
+})
+
+describe('civilDateInZone', () => {
+  it('reads the date on the zone’s wall clock', () => {
+    const instant = new Date('2026-11-07T00:00:00Z')
+    expect(civilDateInZone(instant, 'America/New_York')).toEqual({ year: 2026, month: 11, day: 6 })
+    expect(civilDateInZone(instant, 'Europe/London')).toEqual({ year: 2026, month: 11, day: 7 })
+  })
+})
+
+describe('civil date arithmetic', () => {
+  it('crosses month and year ends', () => {
+    expect(addDays({ year: 2026, month: 12, day: 31 }, 1)).toEqual({ year: 2027, month: 1, day: 1 })
+    expect(addDays({ year: 2028, month: 3, day: 1 }, -1)).toEqual({ year: 2028, month: 2, day: 29 })
+    expect(addMonths({ year: 2026, month: 11, day: 30 }, 3)).toEqual({ year: 2027, month: 2, day: 1 })
+    expect(addMonths({ year: 2026, month: 1, day: 15 }, -1)).toEqual({ year: 2025, month: 12, day: 1 })
+  })
+
+  it('numbers weekdays from Sunday', () => {
+    expect(weekday({ year: 2026, month: 10, day: 18 })).toBe(0)
+    expect(weekday({ year: 2026, month: 10, day: 24 })).toBe(6)
+  })
+})
+
+describe('parseLocalDateTime', () => {
+  it.each([['2026-02-29T19:00'], ['2026-13-01T19:00'], ['2026-10-01T24:00'], ['2026-10-01 19:00'], ['2026-10-01T19:00Z']])(
+    'rejects %s',
+    value => {
+      expect(parseLocalDateTime(value)).toBeNull()
+    },
+  )
+})
@@ -0,0 +1,127 @@
+// Calendar-date and wall-clock arithmetic in IANA time zones, on top of
+// Intl so no tz database has to ship with the site. Recurrence is expanded
+// on civil dates (what the GM means by "every other Friday at 7pm") and
+// only converted to an instant at the end, so sessions keep their local
+// start time across DST changes.
+
+export interface CivilDate {
+  year: number
+  /** 1–12. */
+  month: number
+  day: number
+}
+
+export interface CivilDateTime extends CivilDate {
+  hour: number
+  minute: number
+}
+
+const DAY_MS = 86_400_000
+
+export function civilDateToUtcMs({ year, month, day }: CivilDate): number {
+  return Date.UTC(year, month - 1, day)
+}
+
+function civilDateFromUtcMs(ms: number): CivilDate {
+  const date = new Date(ms)
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+export function addDays(date: CivilDate, days: number): CivilDate {
+  return civilDateFromUtcMs(civilDateToUtcMs(date) + days * DAY_MS)
+}
+
+export function addMonths({ year, month }: CivilDate, months: number): CivilDate {
+  const index = year * 12 + (month - 1) + months
+  return { year: Math.floor(index / 12), month: (index % 12) + 1, day: 1 }
+}
+
+/** 0 = Sunday … 6 = Saturday, matching Date#getUTCDay. */
+export function weekday(date: CivilDate): number {
+  return new Date(civilDateToUtcMs(date)).getUTCDay()
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+export function compareCivilDates(a: CivilDate, b: CivilDate): number {
+  return civilDateToUtcMs(a) - civilDateToUtcMs(b)
+}
+
+export function formatCivilDate({ year, month, day }: CivilDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/
+
+/** Parses 'YYYY-MM-DDTHH:mm' (no offset); returns null if malformed or out of range. */
+export function parseLocalDateTime(value: string): CivilDateTime | null {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value)
+  if (!match) return null
+  const [year, month, day, hour, minute] = match.slice(1).map(Number)
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null
+  if (hour > 23 || minute > 59) return null
+  return { year, month, day, hour, minute }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** The zone's UTC offset at `utcMs`, in milliseconds (negative west of Greenwich). */
+function zoneOffsetMs(utcMs: number, timeZone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of zoneFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(utcMs / 1000) * 1000
+}
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. Times that fall in a
+ * spring-forward gap resolve to the same wall time under the earlier offset
+ * (i.e. an hour later than written); ambiguous fall-back times resolve to
+ * the first occurrence.
+ */
+export function zonedTimeToUtc(local: CivilDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  // Offsets a day either side bracket any transition near this wall time.
+  const before = zoneOffsetMs(asUtc - DAY_MS, timeZone)
+  const after = zoneOffsetMs(asUtc + DAY_MS, timeZone)
+  const candidates = [asUtc - before, asUtc - after].filter(
+    (utcMs, i) => zoneOffsetMs(utcMs, timeZone) === (i === 0 ? before : after),
+  )
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : asUtc - before)
+}
+
+/** The civil date in `timeZone` at the given instant. */
+export function civilDateInZone(instant: Date, timeZone: string): CivilDate {
+  return civilDateFromUtcMs(instant.getTime() + zoneOffsetMs(instant.getTime(), timeZone))
+}
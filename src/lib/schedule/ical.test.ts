@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { foldLine } from './ical'
+
+const octets = (value: string) => new TextEncoder().encode(value).length
+const unfold = (folded: string) => folded.replace(/\r\n /g, '')
+
+describe('foldLine', () => {
+  it('leaves a line of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'x'.repeat(67)}`
+    expect(octets(line)).toBe(75)
+    expect(foldLine(line)).toBe(line)
+  })
+
+  it('folds at 75 octets, counting the continuation space', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`)
+    const lines = folded.split('\r\n')
+    expect(lines.map(octets)).toEqual([75, 75, 64])
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true)
+  })
+
+  it('folds a long UTF-8 line between characters, never inside one', () => {
+    const line = `DESCRIPTION:${'Sesión de rol — '.repeat(6)}🎲🐉🎲🐉🎲🐉${'ação '.repeat(10)}`
+    const folded = foldLine(line)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(2)
+    // Some fold had to come early because the next character didn't fit whole.
+    expect(lines.slice(0, -1).some(physical => octets(physical) < 75)).toBe(true)
+    for (const physical of lines) {
+      expect(octets(physical)).toBeLessThanOrEqual(75)
+      // A split surrogate pair or multi-byte sequence wouldn't survive a UTF-8 round trip.
+      expect(Buffer.from(physical, 'utf8').toString('utf8')).toBe(physical)
+    }
+    expect(unfold(folded)).toBe(line)
+  })
+})
@@ -0,0 +1,82 @@
+import { DISCORD_INVITE_URL } from '../discord/invite'
+import { absoluteUrl, SITE_NAME } from '../site'
+import type { SessionOccurrence } from './schedule'
+
+// iCalendar (RFC 5545) feed for /schedule.ics. Occurrences are written out
+// as individual UTC events instead of one RRULE per table: a TZID-anchored
+// rule would need a VTIMEZONE block we can't derive from Intl, and a UTC
+// rule drifts an hour at every DST change. Calendar apps re-poll
+// subscriptions, so a rolling window stays current.
+
+export const CALENDAR_NAME = `${SITE_NAME} Game Nights`
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Content lines are limited to 75 octets; continuations start with a space.
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const segments: string[] = []
+  let current = ''
+  let bytes = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = segments.length === 0 ? 75 : 74
+    if (bytes + size > limit) {
+      segments.push(current)
+      current = ''
+      bytes = 0
+    }
+    current += char
+    bytes += size
+  }
+  segments.push(current)
+  return segments.join('\r\n ')
+}
+
+function eventLines(occurrence: SessionOccurrence, stamp: string): string[] {
+  const { session } = occurrence
+  const voiceUrl = session.voiceChannel.url ?? DISCORD_INVITE_URL
+  const description = [
+    session.description,
+    `System: ${session.system}`,
+    `Voice: ${session.voiceChannel.name} on Discord — ${voiceUrl}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${occurrence.id}@crit-fumble.com`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(occurrence.start)}`,
+    `DTEND:${formatUtc(occurrence.end)}`,
+    `SUMMARY:${escapeText(`${session.title} (${session.system})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(`Discord — ${session.voiceChannel.name}`)}`,
+    `URL:${absoluteUrl('/schedule')}`,
+    'END:VEVENT',
+  ]
+}
+
+export function buildCalendar(occurrences: SessionOccurrence[], now = new Date()): string {
+  const stamp = formatUtc(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Crit-Fumble Gaming//Game Night Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(CALENDAR_NAME)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...occurrences.flatMap(occurrence => eventLines(occurrence, stamp)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { type CivilDate, formatCivilDate, zonedTimeToUtc } from './civil'
+import { expandRRule, parseRRule, RRuleError } from './rrule'
+
+function expand(rule: string, start: string, through: string): string[] {
+  const date = (value: string): CivilDate => {
+    const [year, month, day] = value.split('-').map(Number)
+    return { year, month, day }
+  }
+  return expandRRule(parseRRule(rule), date(start), date(through)).map(formatCivilDate)
+}
+
+describe('parseRRule', () => {
+  it('reads every supported part', () => {
+    expect(parseRRule('RRULE:freq=weekly;interval=2;byday=TU,TH;until=20261231;wkst=SU')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [
+        { day: 2, ordinal: null },
+        { day: 4, ordinal: null },
+      ],
+      byMonthDay: [],
+      count: null,
+      until: { year: 2026, month: 12, day: 31 },
+      weekStart: 0,
+      source: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;UNTIL=20261231;WKST=SU',
+    })
+  })
+
+  it.each([
+    ['', /empty/],
+    ['INTERVAL=2', /FREQ is required/],
+    ['FREQ=YEARLY', /not supported/],
+    ['FREQ=WEEKLY;BYHOUR=19', /BYHOUR is not supported/],
+    ['FREQ=WEEKLY;COUNT=3;UNTIL=20261231', /cannot both be set/],
+    ['FREQ=WEEKLY;BYDAY=1FR', /only apply to FREQ=MONTHLY/],
+    ['FREQ=MONTHLY;BYDAY=6FR', /1–5/],
+    ['FREQ=DAILY;BYDAY=FR', /not supported with FREQ=DAILY/],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', /only applies to FREQ=MONTHLY/],
+    ['FREQ=WEEKLY;BYDAY=FRI', /Invalid BYDAY/],
+    ['FREQ=WEEKLY;UNTIL=20260230', /not a real date/],
+    ['FREQ=WEEKLY;INTERVAL=0', /positive integer/],
+    ['FREQ=WEEKLY;FREQ=DAILY', /appears twice/],
+  ])('rejects %j', (rule, message) => {
+    expect(() => parseRRule(rule)).toThrow(RRuleError)
+    expect(() => parseRRule(rule)).toThrow(message)
+  })
+})
+
+describe('expandRRule', () => {
+  it('stops a BYDAY rule at UNTIL, inclusive', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20261020', '2026-10-06', '2026-12-31')).toEqual([
+      '2026-10-06',
+      '2026-10-08',
+      '2026-10-13',
+      '2026-10-15',
+      '2026-10-20',
+    ])
+  })
+
+  it('compares a date-time UNTIL by its date', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=FR;UNTIL=20261023T000000Z', '2026-10-02', '2026-12-31')).toEqual([
+      '2026-10-02',
+      '2026-10-09',
+      '2026-10-16',
+      '2026-10-23',
+    ])
+  })
+
+  it('skips whole weeks for INTERVAL, counted from WKST', () => {
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,SA;WKST=SU', '2026-10-03', '2026-11-01')).toEqual([
+      '2026-10-03',
+      '2026-10-11',
+      '2026-10-17',
+      '2026-10-25',
+      '2026-10-31',
+    ])
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,SA', '2026-10-03', '2026-11-01')).toEqual([
+      '2026-10-03',
+      '2026-10-04',
+      '2026-10-17',
+      '2026-10-18',
+      '2026-10-31',
+      '2026-11-01',
+    ])
+  })
+
+  it('takes n-th and last weekdays of the month', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=1SA,-1FR;COUNT=5', '2026-10-03', '2027-12-31')).toEqual([
+      '2026-10-03',
+      '2026-10-30',
+      '2026-11-07',
+      '2026-11-27',
+      '2026-12-05',
+    ])
+  })
+
+  it('counts BYMONTHDAY from the end and skips months that are too short', () => {
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-31', '2026-04-30')).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+    ])
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=31', '2026-01-31', '2026-05-31')).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+    ])
+  })
+
+  it('keeps the local start time through a DST-transition week', () => {
+    // New York falls back on Sunday 1 November 2026; Friday 19:00 stays 19:00.
+    const starts = expand('FREQ=WEEKLY;BYDAY=FR', '2026-10-23', '2026-11-13').map(date => {
+      const [year, month, day] = date.split('-').map(Number)
+      return zonedTimeToUtc({ year, month, day, hour: 19, minute: 0 }, 'America/New_York').toISOString()
+    })
+    expect(starts).toEqual([
+      '2026-10-23T23:00:00.000Z',
+      '2026-10-30T23:00:00.000Z',
+      '2026-11-07T00:00:00.000Z',
+      '2026-11-14T00:00:00.000Z',
+    ])
+  })
+})
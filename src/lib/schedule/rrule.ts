@@ -0,0 +1,213 @@
+// RFC 5545 recurrence rules — the subset a game-night schedule needs:
+//
+//   FREQ=DAILY|WEEKLY|MONTHLY   required
+//   INTERVAL=n                  every n-th period (default 1)
+//   BYDAY=MO,WE                 WEEKLY: the weekdays to play on
+//   BYDAY=1SA,-1FR              MONTHLY: n-th weekday of the month (no
+//                               ordinal means every such weekday)
+//   BYMONTHDAY=15,-1            MONTHLY: day of the month, negative from the end
+//   COUNT=n | UNTIL=YYYYMMDD[THHMMSSZ]
+//   WKST=MO|SU                  first day of the week for WEEKLY intervals
+//
+// Anything else is rejected rather than silently ignored, so a schedule
+// entry can't quietly expand to different dates here than in the
+// calendar apps reading /schedule.ics.
+
+import {
+  addDays,
+  addMonths,
+  type CivilDate,
+  compareCivilDates,
+  daysInMonth,
+  weekday,
+} from './civil'
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export interface WeekdayRule {
+  /** 0 = Sunday … 6 = Saturday. */
+  day: number
+  /** MONTHLY only: 1 = first, -1 = last; null = every such weekday. */
+  ordinal: number | null
+}
+
+export interface RecurrenceRule {
+  freq: Frequency
+  interval: number
+  byDay: WeekdayRule[]
+  byMonthDay: number[]
+  count: number | null
+  /** Inclusive, compared against the occurrence's civil date. */
+  until: CivilDate | null
+  weekStart: number
+  /** Canonical spelling, as written to iCalendar. */
+  source: string
+}
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RRuleError'
+  }
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+const FREQUENCIES: readonly Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY']
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'])
+
+function positiveInteger(name: string, value: string): number {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new RRuleError(`${name} must be a positive integer, got "${value}"`)
+  }
+  return Number(value)
+}
+
+function parseWeekday(value: string): number {
+  const day = WEEKDAYS.indexOf(value as (typeof WEEKDAYS)[number])
+  if (day < 0) throw new RRuleError(`Unknown weekday "${value}" (expected one of ${WEEKDAYS.join(', ')})`)
+  return day
+}
+
+function parseByDay(value: string, freq: Frequency): WeekdayRule[] {
+  return value.split(',').map(entry => {
+    const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(entry)
+    if (!match) throw new RRuleError(`Invalid BYDAY entry "${entry}"`)
+    const ordinal = match[1] ? Number(match[1]) : null
+    if (ordinal !== null) {
+      if (freq !== 'MONTHLY') throw new RRuleError(`BYDAY ordinals like "${entry}" only apply to FREQ=MONTHLY`)
+      if (ordinal === 0 || Math.abs(ordinal) > 5) throw new RRuleError(`BYDAY ordinal in "${entry}" must be 1–5 or -1–-5`)
+    }
+    return { day: parseWeekday(match[2]), ordinal }
+  })
+}
+
+function parseByMonthDay(value: string): number[] {
+  return value.split(',').map(entry => {
+    const day = /^[+-]?\d{1,2}$/.test(entry) ? Number(entry) : NaN
+    if (!day || Math.abs(day) > 31) throw new RRuleError(`Invalid BYMONTHDAY entry "${entry}"`)
+    return day
+  })
+}
+
+function parseUntil(value: string): CivilDate {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z)?$/.exec(value)
+  if (!match) throw new RRuleError(`UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ, got "${value}"`)
+  const [year, month, day] = match.slice(1, 4).map(Number)
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    throw new RRuleError(`UNTIL "${value}" is not a real date`)
+  }
+  return { year, month, day }
+}
+
+/** Parses an RRULE value (with or without the "RRULE:" prefix). */
+export function parseRRule(input: string): RecurrenceRule {
+  const body = input.trim().replace(/^RRULE:/i, '').toUpperCase()
+  if (!body) throw new RRuleError('Recurrence rule is empty')
+
+  const parts = new Map<string, string>()
+  for (const pair of body.split(';')) {
+    const [name, value, ...rest] = pair.split('=')
+    if (!name || value === undefined || rest.length > 0) throw new RRuleError(`Malformed rule part "${pair}"`)
+    if (!SUPPORTED_PARTS.has(name)) throw new RRuleError(`${name} is not supported`)
+    if (parts.has(name)) throw new RRuleError(`${name} appears twice`)
+    parts.set(name, value)
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined
+  if (!freq) throw new RRuleError('FREQ is required')
+  if (!FREQUENCIES.includes(freq)) throw new RRuleError(`FREQ=${freq} is not supported (use ${FREQUENCIES.join(', ')})`)
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) throw new RRuleError('COUNT and UNTIL cannot both be set')
+  if (parts.has('BYMONTHDAY') && freq !== 'MONTHLY') throw new RRuleError('BYMONTHDAY only applies to FREQ=MONTHLY')
+  if (parts.has('BYDAY') && freq === 'DAILY') throw new RRuleError('BYDAY is not supported with FREQ=DAILY')
+  if (parts.has('BYDAY') && parts.has('BYMONTHDAY')) throw new RRuleError('Use either BYDAY or BYMONTHDAY, not both')
+
+  return {
+    freq,
+    interval: parts.has('INTERVAL') ? positiveInteger('INTERVAL', parts.get('INTERVAL')!) : 1,
+    byDay: parts.has('BYDAY') ? parseByDay(parts.get('BYDAY')!, freq) : [],
+    byMonthDay: parts.has('BYMONTHDAY') ? parseByMonthDay(parts.get('BYMONTHDAY')!) : [],
+    count: parts.has('COUNT') ? positiveInteger('COUNT', parts.get('COUNT')!) : null,
+    until: parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : null,
+    weekStart: parts.has('WKST') ? parseWeekday(parts.get('WKST')!) : 1,
+    source: body,
+  }
+}
+
+// Bounds expansion of rules with no COUNT/UNTIL; a weekly game runs out of
+// periods after ~190 years.
+const MAX_PERIODS = 10_000
+
+function nthWeekdayOfMonth(year: number, month: number, day: number, ordinal: number): CivilDate | null {
+  const length = daysInMonth(year, month)
+  if (ordinal > 0) {
+    const first = (day - weekday({ year, month, day: 1 }) + 7) % 7 + 1
+    const date = first + (ordinal - 1) * 7
+    return date <= length ? { year, month, day: date } : null
+  }
+  const last = length - ((weekday({ year, month, day: length }) - day + 7) % 7)
+  const date = last + (ordinal + 1) * 7
+  return date >= 1 ? { year, month, day: date } : null
+}
+
+/** Candidate dates in one period (day, week or month), sorted. */
+function periodDates(rule: RecurrenceRule, start: CivilDate, period: number): CivilDate[] {
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(start, period * rule.interval)]
+
+    case 'WEEKLY': {
+      const weekOf = addDays(start, -((weekday(start) - rule.weekStart + 7) % 7) + period * rule.interval * 7)
+      const days = rule.byDay.length > 0 ? rule.byDay.map(d => d.day) : [weekday(start)]
+      return [...new Set(days.map(d => (d - rule.weekStart + 7) % 7))]
+        .sort((a, b) => a - b)
+        .map(offset => addDays(weekOf, offset))
+    }
+
+    case 'MONTHLY': {
+      const { year, month } = addMonths(start, period * rule.interval)
+      const length = daysInMonth(year, month)
+      let dates: CivilDate[]
+      if (rule.byDay.length > 0) {
+        dates = rule.byDay.flatMap(({ day, ordinal }) => {
+          if (ordinal !== null) {
+            const date = nthWeekdayOfMonth(year, month, day, ordinal)
+            return date ? [date] : []
+          }
+          const matches: CivilDate[] = []
+          for (let date = nthWeekdayOfMonth(year, month, day, 1)!.day; date <= length; date += 7) {
+            matches.push({ year, month, day: date })
+          }
+          return matches
+        })
+      } else {
+        const days = rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.day]
+        dates = days
+          .map(d => (d > 0 ? d : length + d + 1))
+          .filter(d => d >= 1 && d <= length)
+          .map(d => ({ year, month, day: d }))
+      }
+      const unique = new Map(dates.map(date => [date.day, date]))
+      return [...unique.values()].sort(compareCivilDates)
+    }
+  }
+}
+
+/**
+ * Occurrence dates of `rule` starting from `start`, in order, up to and
+ * including `through`. `start` should itself match the rule — RFC 5545
+ * leaves the set undefined otherwise — and the schedule checks that.
+ */
+export function expandRRule(rule: RecurrenceRule, start: CivilDate, through: CivilDate): CivilDate[] {
+  const dates: CivilDate[] = []
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of periodDates(rule, start, period)) {
+      if (compareCivilDates(date, start) < 0) continue
+      if (compareCivilDates(date, through) > 0) return dates
+      if (rule.until && compareCivilDates(date, rule.until) > 0) return dates
+      dates.push(date)
+      if (rule.count !== null && dates.length >= rule.count) return dates
+    }
+  }
+  return dates
+}
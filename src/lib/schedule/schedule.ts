@@ -0,0 +1,144 @@
+import { DISCORD_INVITE_URL } from '../discord/invite'
+import {
+  addDays,
+  type CivilDate,
+  civilDateInZone,
+  type CivilDateTime,
+  formatCivilDate,
+  isValidTimeZone,
+  parseLocalDateTime,
+  zonedTimeToUtc,
+} from './civil'
+import { expandRRule, parseRRule, type RecurrenceRule, RRuleError } from './rrule'
+import { SESSIONS, type SessionDefinition } from './sessions'
+
+export class ScheduleError extends Error {
+  constructor(sessionId: string, problem: string) {
+    super(`Schedule entry "${sessionId}": ${problem}`)
+    this.name = 'ScheduleError'
+  }
+}
+
+interface CompiledSession {
+  session: SessionDefinition
+  start: CivilDateTime
+  rule: RecurrenceRule | null
+  exdates: Set<string>
+}
+
+export interface SessionOccurrence {
+  /** `${session.id}-${YYYYMMDD}` — unique per occurrence, stable across deploys. */
+  id: string
+  session: SessionDefinition
+  start: Date
+  end: Date
+}
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function compileSession(session: SessionDefinition): CompiledSession {
+  const fail = (problem: string): never => {
+    throw new ScheduleError(session.id, problem)
+  }
+
+  if (!ID_PATTERN.test(session.id)) fail('id must be a lowercase slug')
+  if (!isValidTimeZone(session.timeZone)) fail(`unknown time zone "${session.timeZone}"`)
+  if (!Number.isInteger(session.durationMinutes) || session.durationMinutes < 1) {
+    fail('durationMinutes must be a positive integer')
+  }
+  const start = parseLocalDateTime(session.start) ?? fail(`start "${session.start}" must be YYYY-MM-DDTHH:mm`)
+  for (const date of session.exdates ?? []) {
+    if (!DATE_PATTERN.test(date)) fail(`exdate "${date}" must be YYYY-MM-DD`)
+  }
+
+  let rule: RecurrenceRule | null = null
+  if (session.rrule !== undefined) {
+    try {
+      rule = parseRRule(session.rrule)
+    } catch (err) {
+      if (err instanceof RRuleError) fail(`rrule: ${err.message}`)
+      throw err
+    }
+    const [first] = expandRRule(rule!, start, start)
+    if (!first) fail(`start ${session.start} is not itself an occurrence of ${session.rrule}`)
+  }
+
+  return { session, start, rule, exdates: new Set(session.exdates) }
+}
+
+// Validated at module load, so a broken entry fails `next build`.
+const SCHEDULE = (() => {
+  const seen = new Set<string>()
+  return SESSIONS.map(session => {
+    if (seen.has(session.id)) throw new ScheduleError(session.id, 'duplicate id')
+    seen.add(session.id)
+    return compileSession(session)
+  })
+})()
+
+function occurrencesOf(compiled: CompiledSession, through: CivilDate): SessionOccurrence[] {
+  const { session, start, rule, exdates } = compiled
+  const dates = rule ? expandRRule(rule, start, through) : [start]
+  return dates
+    .filter(date => !exdates.has(formatCivilDate(date)))
+    .map(date => {
+      const begins = zonedTimeToUtc({ ...date, hour: start.hour, minute: start.minute }, session.timeZone)
+      return {
+        id: `${session.id}-${formatCivilDate(date).replace(/-/g, '')}`,
+        session,
+        start: begins,
+        end: new Date(begins.getTime() + session.durationMinutes * 60_000),
+      }
+    })
+}
+
+/**
+ * Occurrences that haven't ended by `from` and start before `to`, soonest
+ * first.
+ */
+export function sessionsBetween(from: Date, to: Date): SessionOccurrence[] {
+  return SCHEDULE.flatMap(compiled => {
+    // A day of slack covers zones ahead of the one `to` was read in.
+    const through = addDays(civilDateInZone(to, compiled.session.timeZone), 1)
+    return occurrencesOf(compiled, through).filter(o => o.end > from && o.start < to)
+  }).sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+const DAY_MS = 86_400_000
+
+export function upcomingSessions({
+  now = new Date(),
+  days = 60,
+  limit,
+}: { now?: Date; days?: number; limit?: number } = {}): SessionOccurrence[] {
+  const occurrences = sessionsBetween(now, new Date(now.getTime() + days * DAY_MS))
+  return limit === undefined ? occurrences : occurrences.slice(0, limit)
+}
+
+/** A plain-data occurrence for client components. */
+export interface SerializedOccurrence {
+  id: string
+  title: string
+  system: string
+  description?: string
+  /** ISO instants. */
+  start: string
+  end: string
+  /** The session's home zone. */
+  timeZone: string
+  voiceChannel: { name: string; url: string }
+}
+
+export function serializeOccurrence({ id, session, start, end }: SessionOccurrence): SerializedOccurrence {
+  return {
+    id,
+    title: session.title,
+    system: session.system,
+    description: session.description,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    timeZone: session.timeZone,
+    voiceChannel: { name: session.voiceChannel.name, url: session.voiceChannel.url ?? DISCORD_INVITE_URL },
+  }
+}
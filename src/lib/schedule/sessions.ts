@@ -0,0 +1,46 @@
+// The game-night schedule. One entry per table: one-off sessions omit
+// `rrule`, recurring ones give the first session as `start` plus an RFC 5545
+// rule (see ./rrule for the supported subset). Entries are validated when
+// the schedule module loads, so a typo fails the build instead of silently
+// dropping a game from the homepage and /schedule.ics.
+
+export interface VoiceChannel {
+  /** Channel name as it appears in our Discord server. */
+  name: string
+  /** Deep link to the channel; falls back to the server invite. */
+  url?: string
+}
+
+export interface SessionDefinition {
+  /** Stable slug — used in iCalendar UIDs, so don't rename live entries. */
+  id: string
+  title: string
+  /** Game system, e.g. "Cypher System". */
+  system: string
+  description?: string
+  /** Wall-clock start in `timeZone`, 'YYYY-MM-DDTHH:mm'. */
+  start: string
+  durationMinutes: number
+  /** IANA zone the GM schedules in; recurrences keep this local time across DST. */
+  timeZone: string
+  /** e.g. 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR'. Omit for a one-off session. */
+  rrule?: string
+  /** Cancelled dates (YYYY-MM-DD in `timeZone`). */
+  exdates?: string[]
+  voiceChannel: VoiceChannel
+}
+
+// Everything here is published as-is to the homepage, /schedule and every
+// subscribed calendar, so only list games their GM has confirmed. Example:
+//
+//   {
+//     id: 'cypher-friday',
+//     title: 'Cypher Friday',
+//     system: 'Cypher System',
+//     start: '2026-11-06T19:00',
+//     durationMinutes: 210,
+//     timeZone: 'America/Chicago',
+//     rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR',
+//     voiceChannel: { name: 'Table 1' },
+//   },
+export const SESSIONS: SessionDefinition[] = []
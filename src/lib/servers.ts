@@ -0,0 +1,67 @@
+// Hostable game-server kinds offered by Core's Server Manager. This is the
+// single source for the homepage icon strip, the /servers/[kind] pages,
+// the hosting rows in the economy calculator and the per-kind health
+// probes — adding a kind in Core should only mean adding an entry here
+// (plus its icon under public/img). Hourly cost and provisionable versions
+// change on Core's side without a www deploy, so they aren't here: see
+// lib/rates.
+
+export type ServerAvailability = 'available' | 'beta' | 'coming-soon'
+
+export interface ServerKind {
+  /** URL segment and Core Server Manager id. */
+  slug: string
+  name: string
+  /** Path under /public. */
+  icon: string
+  /** One-line pitch shown on cards. */
+  tagline: string
+  description: string
+  availability: ServerAvailability
+  /** Upstream project site, when there is one worth linking. */
+  homepage?: string
+}
+
+export const SERVER_KINDS = [
+  {
+    slug: 'fermi',
+    name: 'Fermi',
+    icon: '/img/fermi.svg',
+    tagline: 'Managed Fermi servers, provisioned on demand.',
+    description:
+      'A Fermi server provisioned through CFG Core. It starts when your group needs it and stops when you are done, so you only spend Compute Tokens while it runs.',
+    availability: 'coming-soon',
+  },
+  {
+    slug: 'spacebar',
+    name: 'Spacebar',
+    icon: '/img/spacebar.png',
+    tagline: 'Discord-compatible chat server you control.',
+    description:
+      'Spacebar is an open-source, Discord-compatible chat platform. Run a private server for your table that works with the clients your players already know.',
+    availability: 'available',
+    homepage: 'https://spacebar.chat',
+  },
+  {
+    slug: 'foundryvtt',
+    name: 'FoundryVTT',
+    icon: '/img/fvtt-d20.png',
+    tagline: 'Virtual tabletop for your campaigns.',
+    description:
+      'A dedicated Foundry Virtual Tabletop server that only runs while you play. Bring your own license; worlds, modules and assets persist between sessions.',
+    availability: 'available',
+    homepage: 'https://foundryvtt.com',
+  },
+] as const satisfies readonly ServerKind[]
+
+export type ServerKindId = (typeof SERVER_KINDS)[number]['slug']
+
+export const AVAILABILITY_LABEL: Record<ServerAvailability, string> = {
+  available: 'Available',
+  beta: 'Beta',
+  'coming-soon': 'Coming soon',
+}
+
+export function getServerKind(slug: string): ServerKind | undefined {
+  return SERVER_KINDS.find(kind => kind.slug === slug)
+}
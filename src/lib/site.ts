@@ -0,0 +1,27 @@
+// Site-wide identity used by metadata, the sitemap, OG cards and JSON-LD.
+
+export const SITE_URL = process.env.SITE_URL ?? 'https://www.crit-fumble.com'
+
+export const SITE_NAME = 'Crit-Fumble Gaming'
+
+// English; the page <title>/description per language come from
+// content/messages/<locale>.json (metadata.*), which starts from these.
+export const SITE_DESCRIPTION =
+  'Cloud-hosted tabletop game servers, Discord session recording, and party tools — pay only for uptime.'
+
+export const SITE_TAGLINE = "If the GM doesn't kill you, the dice will."
+
+export const GITHUB_ORG_URL = 'https://github.com/Crit-Fumble'
+
+export const CORE_APP_URL = 'https://core.crit-fumble.com'
+
+/** Where players top up Crit-Coins and see their CT / CC / SC balances. */
+export const CORE_WALLET_URL = `${CORE_APP_URL}/apps/settings/wallet`
+
+/** Core's checkout; takes `?plan=<tier id>`. */
+export const CORE_CHECKOUT_URL = `${CORE_APP_URL}/pricing`
+
+/** Absolute URL for a site path. */
+export function absoluteUrl(path: string): string {
+  return new URL(path, SITE_URL).toString()
+}
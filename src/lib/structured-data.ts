@@ -0,0 +1,45 @@
+import { DISCORD_INVITE_URL } from './discord/invite'
+import { absoluteUrl, CORE_APP_URL, GITHUB_ORG_URL, SITE_DESCRIPTION, SITE_NAME, SITE_URL } from './site'
+
+// schema.org JSON-LD for search engines. Rendered through <JsonLd />.
+
+const ORGANIZATION_ID = `${SITE_URL}/#organization`
+
+export const organizationJsonLd = {
+  '@context': 'https://schema.org',
+  '@type': 'Organization',
+  '@id': ORGANIZATION_ID,
+  name: SITE_NAME,
+  legalName: 'Crit Fumble Gaming, LLC',
+  url: SITE_URL,
+  logo: absoluteUrl('/img/cfg-logo.jpg'),
+  description: SITE_DESCRIPTION,
+  foundingDate: '2022',
+  sameAs: [DISCORD_INVITE_URL, GITHUB_ORG_URL],
+}
+
+export const reseshJsonLd = {
+  '@context': 'https://schema.org',
+  '@type': 'SoftwareApplication',
+  name: 'ReSesh',
+  applicationCategory: 'MultimediaApplication',
+  operatingSystem: 'Discord',
+  description:
+    'Discord session recording bot that posts a searchable transcript live as you play.',
+  url: SITE_URL,
+  installUrl: absoluteUrl('/resesh/install'),
+  image: absoluteUrl('/img/resesh.png'),
+  publisher: { '@id': ORGANIZATION_ID },
+}
+
+export const coreJsonLd = {
+  '@context': 'https://schema.org',
+  '@type': 'SoftwareApplication',
+  name: 'CFG Core',
+  applicationCategory: 'GameApplication',
+  operatingSystem: 'Web',
+  description:
+    'Cloud-hosted gaming and community servers, started on demand and billed in Compute Tokens only while they run.',
+  url: CORE_APP_URL,
+  publisher: { '@id': ORGANIZATION_ID },
+}
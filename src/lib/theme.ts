@@ -0,0 +1,31 @@
+// Light/dark theme preference. Stored in a cookie (not localStorage) so the
+// server can render the right class on <html> for an explicit choice; for
+// "system" the inline script from themeScript() resolves
+// prefers-color-scheme before first paint.
+
+export const THEME_PREFERENCES = ['light', 'dark', 'system'] as const
+
+export type ThemePreference = (typeof THEME_PREFERENCES)[number]
+
+export type ResolvedTheme = Exclude<ThemePreference, 'system'>
+
+export const THEME_COOKIE = 'cfg-theme'
+
+/** Unknown or missing cookie values fall back to following the OS. */
+export function parseThemePreference(value: string | undefined): ThemePreference {
+  return THEME_PREFERENCES.find(p => p === value) ?? 'system'
+}
+
+/** The class the server can put on <html>, or undefined when only the browser knows. */
+export function serverThemeClass(preference: ThemePreference): ResolvedTheme | undefined {
+  return preference === 'system' ? undefined : preference
+}
+
+/**
+ * Blocking inline script for <head>: applies the stored or OS theme before
+ * the body paints, so there is no flash of the wrong theme. Kept tiny and
+ * dependency-free since it runs before any bundle loads.
+ */
+export function themeScript(): string {
+  return `(function(){try{var m=document.cookie.match(/(?:^|; )${THEME_COOKIE}=(light|dark)/);var t=m?m[1]:(matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light');var r=document.documentElement;r.classList.remove('light','dark');r.classList.add(t);r.style.colorScheme=t}catch(e){}})()`
+}
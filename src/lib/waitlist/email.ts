@@ -0,0 +1,18 @@
+// Practical, not RFC 5322: one @, no whitespace, a dotted domain. Anything
+// stranger than that is far more likely a typo than a real mailbox.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+
+// SMTP's limit on a forward path.
+const MAX_EMAIL_LENGTH = 254
+
+/**
+ * Trims and lowercases an address so `Player@Example.com ` and
+ * `player@example.com` are one signup. Returns null when it isn't a
+ * plausible address.
+ */
+export function normalizeEmail(input: unknown): string | null {
+  if (typeof input !== 'string') return null
+  const email = input.trim().toLowerCase()
+  if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) return null
+  return email
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { OutgoingMail } from '../mailer'
+import { CONFIRM_TOKEN_TTL_HOURS, confirmSignup, RESEND_COOLDOWN_MINUTES, requestSignup } from './signup'
+
+const sent: OutgoingMail[] = []
+
+vi.mock('../mailer', () => ({
+  sendMail: async (mail: OutgoingMail) => {
+    sent.push(mail)
+  },
+}))
+
+/** The raw token from the newest confirmation email. */
+function lastToken(): string {
+  const match = /token=(\S+)/.exec(sent.at(-1)?.text ?? '')
+  if (!match) throw new Error('no confirmation email sent')
+  return decodeURIComponent(match[1])
+}
+
+const HOUR_MS = 60 * 60_000
+
+describe('waitlist double opt-in', () => {
+  beforeEach(() => {
+    vi.stubEnv('WAITLIST_STORE', 'memory')
+    vi.useFakeTimers({ now: new Date('2026-10-01T12:00:00Z') })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('confirms with the emailed link', async () => {
+    await requestSignup('fresh@example.com')
+    expect(sent.at(-1)?.text).toContain(`The link works for ${CONFIRM_TOKEN_TTL_HOURS} hours.`)
+    const token = lastToken()
+
+    expect(await confirmSignup(token)).toBe('confirmed')
+    expect(await confirmSignup(token)).toBe('already-confirmed')
+  })
+
+  it('accepts a link until it expires', async () => {
+    await requestSignup('slow@example.com')
+    vi.advanceTimersByTime(CONFIRM_TOKEN_TTL_HOURS * HOUR_MS - 1000)
+    expect(await confirmSignup(lastToken())).toBe('confirmed')
+  })
+
+  it('rejects an expired link, and a new signup sends one that works', async () => {
+    await requestSignup('late@example.com')
+    const stale = lastToken()
+    vi.advanceTimersByTime(CONFIRM_TOKEN_TTL_HOURS * HOUR_MS)
+    expect(await confirmSignup(stale)).toBe('expired')
+
+    await requestSignup('late@example.com')
+    expect(await confirmSignup(stale)).toBe('invalid')
+    expect(await confirmSignup(lastToken())).toBe('confirmed')
+  })
+
+  it('sends at most one email per address within the resend cooldown', async () => {
+    await requestSignup('target@example.com')
+    const first = lastToken()
+    const count = sent.length
+
+    vi.advanceTimersByTime(RESEND_COOLDOWN_MINUTES * 60_000 - 1000)
+    await requestSignup('target@example.com')
+    await requestSignup('target@example.com')
+    expect(sent).toHaveLength(count)
+
+    vi.advanceTimersByTime(1000)
+    await requestSignup('target@example.com')
+    expect(sent).toHaveLength(count + 1)
+    expect(await confirmSignup(first)).toBe('invalid')
+    expect(await confirmSignup(lastToken())).toBe('confirmed')
+  })
+
+  it('rejects unknown tokens', async () => {
+    expect(await confirmSignup('not-a-token')).toBe('invalid')
+  })
+})
@@ -0,0 +1,81 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { sendMail } from '../mailer'
+import { absoluteUrl } from '../site'
+import { getWaitlistStore, type WaitlistSignup } from './store'
+
+// How long a confirmation link works: long enough for a slow inbox, short
+// enough that an old or forwarded email isn't a standing way onto the list.
+// Signing up again sends a fresh link.
+export const CONFIRM_TOKEN_TTL_HOURS = 48
+
+// Signing up again with a pending address sends at most one email per
+// window, whichever instance or IP the requests come from — otherwise the
+// form could fill a stranger's inbox.
+export const RESEND_COOLDOWN_MINUTES = 15
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function confirmationMail(email: string, token: string) {
+  const link = absoluteUrl(`/waitlist/confirm?token=${encodeURIComponent(token)}`)
+  return {
+    to: email,
+    subject: 'Confirm your spot on the CFG Core waitlist',
+    text: [
+      'Thanks for your interest in CFG Core!',
+      '',
+      "Confirm your email and we'll let you know as soon as Core hosting is back:",
+      link,
+      '',
+      `The link works for ${CONFIRM_TOKEN_TTL_HOURS} hours.`,
+      "If you didn't sign up, ignore this email and you won't hear from us again.",
+      '',
+      '— Crit Fumble Gaming',
+    ].join('\n'),
+  }
+}
+
+/**
+ * Records a pending signup and sends the opt-in email. Already-confirmed
+ * addresses are left alone, and so are pending ones emailed within the
+ * last RESEND_COOLDOWN_MINUTES; otherwise a pending address gets a fresh
+ * token and a resend. Callers should show the same message in every case
+ * so the form doesn't reveal who is on the list.
+ */
+export async function requestSignup(email: string): Promise<void> {
+  const store = getWaitlistStore()
+  const existing = await store.get(email)
+  if (existing?.status === 'confirmed') return
+
+  const now = Date.now()
+  if (existing?.lastSentAt && Date.parse(existing.lastSentAt) > now - RESEND_COOLDOWN_MINUTES * 60_000) return
+
+  const token = randomBytes(24).toString('base64url')
+  const signup: WaitlistSignup = {
+    email,
+    status: 'pending',
+    tokenHash: hashToken(token),
+    tokenExpiresAt: new Date(now + CONFIRM_TOKEN_TTL_HOURS * 60 * 60_000).toISOString(),
+    lastSentAt: new Date(now).toISOString(),
+    createdAt: existing?.createdAt ?? new Date(now).toISOString(),
+    confirmedAt: null,
+  }
+  await store.put(signup)
+  await sendMail(confirmationMail(email, token))
+}
+
+export type ConfirmResult = 'confirmed' | 'already-confirmed' | 'expired' | 'invalid'
+
+export async function confirmSignup(token: string): Promise<ConfirmResult> {
+  const store = getWaitlistStore()
+  const signup = await store.findByTokenHash(hashToken(token))
+  if (!signup) return 'invalid'
+  if (signup.status === 'confirmed') return 'already-confirmed'
+  // Pending signups from before links expired have no expiry; they're
+  // treated as expired, and signing up again sends a link that works.
+  if (!signup.tokenExpiresAt || Date.parse(signup.tokenExpiresAt) <= Date.now()) return 'expired'
+
+  await store.put({ ...signup, status: 'confirmed', confirmedAt: new Date().toISOString() })
+  return 'confirmed'
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { kv, kvPipeline, resolveStoreBackend } from '../kv'
+
+// Storage for Core relaunch waitlist signups, same adapter shape as the
+// health history: KV in production (see lib/kv), file for local dev, and
+// memory only when asked for explicitly.
+
+export interface WaitlistSignup {
+  email: string
+  status: 'pending' | 'confirmed'
+  /** SHA-256 of the opt-in token — the raw token only ever lives in the email. */
+  tokenHash: string
+  /** When the opt-in link stops working. Missing on signups stored before links expired. */
+  tokenExpiresAt?: string
+  /** When the latest confirmation email went out. Missing on signups stored before resends were throttled. */
+  lastSentAt?: string
+  createdAt: string
+  confirmedAt: string | null
+}
+
+export interface WaitlistStore {
+  get(email: string): Promise<WaitlistSignup | null>
+  findByTokenHash(tokenHash: string): Promise<WaitlistSignup | null>
+  put(signup: WaitlistSignup): Promise<void>
+  list(): Promise<WaitlistSignup[]>
+}
+
+export function createMemoryWaitlistStore(): WaitlistStore {
+  const signups = new Map<string, WaitlistSignup>()
+
+  return {
+    async get(email) {
+      return signups.get(email) ?? null
+    },
+    async findByTokenHash(tokenHash) {
+      for (const signup of signups.values()) if (signup.tokenHash === tokenHash) return signup
+      return null
+    },
+    async put(signup) {
+      signups.set(signup.email, signup)
+    },
+    async list() {
+      return [...signups.values()]
+    },
+  }
+}
+
+/**
+ * One JSON document keyed by email. Writes go through a temp file and
+ * rename so a crash mid-write can't truncate the list.
+ */
+export function createFileWaitlistStore(filePath: string): WaitlistStore {
+  // Serializes read-modify-write cycles within this process.
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function readAll(): Promise<Record<string, WaitlistSignup>> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {}
+      throw err
+    }
+  }
+
+  async function writeAll(data: Record<string, WaitlistSignup>) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tmp = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2))
+    await fs.rename(tmp, filePath)
+  }
+
+  return {
+    async get(email) {
+      return (await readAll())[email] ?? null
+    },
+    async findByTokenHash(tokenHash) {
+      return Object.values(await readAll()).find(s => s.tokenHash === tokenHash) ?? null
+    },
+    put(signup) {
+      const next = queue.then(async () => {
+        const data = await readAll()
+        data[signup.email] = signup
+        await writeAll(data)
+      })
+      queue = next.catch(() => {})
+      return next
+    },
+    async list() {
+      return Object.values(await readAll())
+    },
+  }
+}
+
+/**
+ * Two Redis hashes: signups by email, and email by token hash for the
+ * confirmation link. A resend replaces the pending signup's token and drops
+ * the old one from the index, so only the newest link works.
+ */
+export function createKvWaitlistStore(prefix = 'waitlist'): WaitlistStore {
+  const signupsKey = `${prefix}:signups`
+  const tokensKey = `${prefix}:tokens`
+
+  async function get(email: string): Promise<WaitlistSignup | null> {
+    const value = await kv<string | null>('HGET', signupsKey, email)
+    return value ? (JSON.parse(value) as WaitlistSignup) : null
+  }
+
+  return {
+    get,
+    async findByTokenHash(tokenHash) {
+      const email = await kv<string | null>('HGET', tokensKey, tokenHash)
+      const signup = email ? await get(email) : null
+      return signup?.tokenHash === tokenHash ? signup : null
+    },
+    async put(signup) {
+      const previous = await get(signup.email)
+      await kvPipeline([
+        ['HSET', signupsKey, signup.email, JSON.stringify(signup)],
+        ['HSET', tokensKey, signup.tokenHash, signup.email],
+        ...(previous && previous.tokenHash !== signup.tokenHash ? [['HDEL', tokensKey, previous.tokenHash]] : []),
+      ])
+    },
+    async list() {
+      const values = await kv<string[]>('HVALS', signupsKey)
+      return values.map(value => JSON.parse(value) as WaitlistSignup)
+    },
+  }
+}
+
+let store: WaitlistStore | null = null
+
+/**
+ * Backend is picked by WAITLIST_STORE ('kv' | 'file' | 'memory'), with the
+ * defaults from resolveStoreBackend: file under `next dev`, KV everywhere
+ * else. Without a durable backend this throws on first use — a signup then
+ * fails with an error in the logs rather than vanishing with the instance.
+ */
+export function getWaitlistStore(): WaitlistStore {
+  if (store) return store
+
+  const backend = resolveStoreBackend(process.env.WAITLIST_STORE, 'WAITLIST_STORE')
+
+  store =
+    backend === 'kv'
+      ? createKvWaitlistStore()
+      : backend === 'file'
+        ? createFileWaitlistStore(
+            process.env.WAITLIST_FILE ?? path.join(process.cwd(), '.data', 'waitlist.json'),
+          )
+        : createMemoryWaitlistStore()
+
+  return store
+}
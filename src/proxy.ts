@@ -0,0 +1,106 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { ADMIN_REALM, isAdminAuthorized, isAdminEnabled } from '@/lib/admin'
+import {
+  buildLegacyCsp,
+  buildStrictCsp,
+  CSP_REPORT_GROUP,
+  CSP_REPORT_PATH,
+  generateNonce,
+  getCspMode,
+  isStaticPath,
+} from '@/lib/csp/policy'
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  type Locale,
+  LOCALE_COOKIE,
+  localePath,
+  LOCALIZED_PATHS,
+  negotiateLocale,
+  splitLocalePath,
+} from '@/lib/i18n/locales'
+
+function redirect(request: NextRequest, pathname: string, status: 307 | 308) {
+  const url = request.nextUrl.clone()
+  url.pathname = pathname
+  return NextResponse.redirect(url, status)
+}
+
+export function proxy(request: NextRequest) {
+  // Locale prefixes (see lib/i18n/locales). Every page is served from
+  // app/[locale]/…: /es/… and /pt/… map straight onto it, unprefixed URLs
+  // are English, and a visitor's own /en/… is folded into the canonical
+  // URL. A translated page requested without a prefix goes to the
+  // visitor's language — their switcher choice if they made one, otherwise
+  // Accept-Language.
+  const { locale: prefix, path } = splitLocalePath(request.nextUrl.pathname)
+  let locale: Locale = DEFAULT_LOCALE
+  if (prefix) {
+    if (prefix === DEFAULT_LOCALE) return redirect(request, path, 308)
+    if (!LOCALIZED_PATHS.has(path)) return redirect(request, path, 307)
+    locale = prefix
+  } else if (LOCALIZED_PATHS.has(path)) {
+    const chosen = request.cookies.get(LOCALE_COOKIE)?.value
+    const preferred = isLocale(chosen) ? chosen : negotiateLocale(request.headers.get('accept-language'))
+    if (preferred !== DEFAULT_LOCALE) return redirect(request, localePath(preferred, path), 307)
+  }
+
+  // /admin pages are behind HTTP Basic auth so a browser can prompt for the
+  // admin token; the pages re-check it themselves as well.
+  if (path.startsWith('/admin')) {
+    if (!isAdminEnabled()) return new NextResponse('Not found', { status: 404 })
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+      return new NextResponse('Authentication required', {
+        status: 401,
+        headers: { 'WWW-Authenticate': `Basic realm="${ADMIN_REALM}", charset="UTF-8"` },
+      })
+    }
+  }
+
+  // x-nonce is ours to set; never pass along a copy the client sent, even
+  // on requests that don't get a nonce below.
+  const requestHeaders = new Headers(request.headers)
+  requestHeaders.delete('x-nonce')
+  const url = request.nextUrl.clone()
+  url.pathname = path === '/' ? `/${locale}` : `/${locale}${path}`
+  const forward = () => NextResponse.rewrite(url, { request: { headers: requestHeaders } })
+
+  // Prefetches only need the rewrite; the page they warm up gets its nonce
+  // when it's actually navigated to.
+  if (request.headers.has('next-router-prefetch') || request.headers.get('purpose') === 'prefetch') {
+    return forward()
+  }
+
+  // Prerendered pages can't carry a per-request nonce, so they get the
+  // policy without one (see lib/csp/policy).
+  const nonce = isStaticPath(path) ? null : generateNonce()
+  const strict = buildStrictCsp({ nonce, isDev: process.env.NODE_ENV === 'development' })
+  const mode = getCspMode()
+  const strictHeader = mode === 'enforce' ? 'Content-Security-Policy' : 'Content-Security-Policy-Report-Only'
+
+  // Next reads the nonce from the CSP request header (either name) and
+  // stamps it onto its own scripts; x-nonce is for our server components.
+  if (nonce) {
+    requestHeaders.set('x-nonce', nonce)
+    requestHeaders.set(strictHeader, strict)
+  }
+
+  const response = forward()
+  response.headers.set(strictHeader, strict)
+  response.headers.set('Reporting-Endpoints', `${CSP_REPORT_GROUP}="${CSP_REPORT_PATH}"`)
+  if (mode === 'report-only') {
+    response.headers.set('Content-Security-Policy', buildLegacyCsp())
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: [
+    // Pages only: skip API routes, build assets, metadata files, feeds and
+    // public files, none of which need a nonce or live under
+    // app/[locale]. next/link prefetches still come through, for the locale
+    // rewrite. `api/` keeps its slash so a page like /apiary isn't skipped.
+    '/((?!api/|_next/static|_next/image|favicon.ico|robots.txt|sitemap.xml|feed.xml|atom.xml|schedule.ics|img/|fonts/).*)',
+  ],
+}
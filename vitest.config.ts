@@ -0,0 +1,15 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the pure modules under src/lib, next to the code they
+// cover as *.test.ts. No DOM or Next runtime — keep React and route
+// handlers out of them.
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+})